@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { policyFromLegacySettings } from './handlers/actionPolicy';
+import { getStoredDetectionSeverity } from './handlers/escalation';
+
+const prisma = new PrismaClient();
+
+// Data upgrades for databases created by older versions. Each one is idempotent, so they run on every start.
+export async function runBackfills(): Promise<void> {
+  await backfillActionPolicies();
+  await backfillOffenses();
+}
+
+async function backfillActionPolicies(): Promise<void> {
+  const guilds = await prisma.guild.findMany({
+    where: { OR: [{ autoDelete: { not: null } }, { autoTimeout: { not: null } }] },
+  });
+
+  for (const guild of guilds) {
+    const actionPolicy = policyFromLegacySettings(guild.autoDelete ?? true, guild.autoTimeout ?? true);
+
+    await prisma.guild.update({
+      where: { id: guild.id },
+      data: { actionPolicy, autoDelete: null, autoTimeout: null },
+    });
+
+    if (guild.autoDelete === false && guild.autoTimeout !== false) {
+      logger.warn('Server timed out without deleting messages, which no action policy matches; set to alert only', {
+        guildId: guild.id,
+      });
+    }
+  }
+
+  if (guilds.length > 0) {
+    logger.info('Mapped legacy auto-delete and auto-timeout settings to action policies', { guilds: guilds.length });
+  }
+}
+
+// Every detection that counted as an offense has a "_level_<n>" suffix on its action, in old versions as well.
+async function backfillOffenses(): Promise<void> {
+  const [detections, offenses] = await Promise.all([
+    prisma.detection.findMany({ where: { flagged: true, actionTaken: { contains: '_level_' } } }),
+    prisma.offense.findMany({ where: { detectionId: { not: null } }, select: { detectionId: true } }),
+  ]);
+
+  const recorded = new Set(offenses.map(offense => offense.detectionId));
+  const missing = detections.filter(detection => !recorded.has(detection.id));
+
+  for (const detection of missing) {
+    await prisma.offense.create({
+      data: {
+        userId: detection.userId,
+        guildId: detection.guildId,
+        detectionId: detection.id,
+        method: detection.detectionMethod,
+        severity: getStoredDetectionSeverity(detection),
+        createdAt: detection.createdAt,
+      },
+    });
+  }
+
+  if (missing.length > 0) {
+    logger.info('Recorded offenses for detections from before the escalation ladder', { offenses: missing.length });
+  }
+}
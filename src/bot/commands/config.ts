@@ -0,0 +1,281 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  MessageFlags,
+  SlashCommandSubcommandGroupBuilder,
+} from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { parseRoleIds } from '../handlers/permissions';
+import {
+  ACTION_POLICIES,
+  ACTION_POLICY_LABELS,
+  ActionPolicy,
+  getActionPolicy,
+  isActionPolicy,
+} from '../handlers/actionPolicy';
+import { resolveThresholds, validateThresholds } from '../../detection/detectionPipeline';
+
+const prisma = new PrismaClient();
+
+export const configSubcommandGroup = new SlashCommandSubcommandGroupBuilder()
+  .setName('config')
+  .setDescription('View or change No CSAM settings for this server')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('show')
+      .setDescription('Show the current settings for this server')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('alert-channel')
+      .setDescription('Set the channel that receives moderator alerts')
+      .addChannelOption(option =>
+        option
+          .setName('channel')
+          .setDescription('Private channel for moderator alerts')
+          .addChannelTypes(ChannelType.GuildText)
+          .setRequired(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('add-moderator-role')
+      .setDescription('Allow a role to manage the bot and receive alert mentions')
+      .addRoleOption(option =>
+        option.setName('role').setDescription('Moderator role').setRequired(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('remove-moderator-role')
+      .setDescription('Remove a moderator role')
+      .addRoleOption(option =>
+        option.setName('role').setDescription('Moderator role').setRequired(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('detection')
+      .setDescription('Enable or disable image scanning in this server')
+      .addBooleanOption(option =>
+        option.setName('enabled').setDescription('Scan images').setRequired(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('action')
+      .setDescription('Choose what happens when content is confirmed as flagged')
+      .addStringOption(option =>
+        option
+          .setName('policy')
+          .setDescription('Action for a confirmed hit')
+          .setRequired(true)
+          .addChoices(...ACTION_POLICIES.map(policy => ({ name: ACTION_POLICY_LABELS[policy], value: policy })))
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('thresholds')
+      .setDescription('Override the detection and review confidence thresholds for this server')
+      .addNumberOption(option =>
+        option
+          .setName('detection')
+          .setDescription('Confidence at or above which content is flagged (0-1)')
+          .setMinValue(0)
+          .setMaxValue(1)
+      )
+      .addNumberOption(option =>
+        option
+          .setName('review')
+          .setDescription('Confidence at or above which content is sent for review (0-1)')
+          .setMinValue(0)
+          .setMaxValue(1)
+      )
+      .addBooleanOption(option =>
+        option.setName('reset').setDescription('Go back to the global default thresholds')
+      )
+  );
+
+export async function handleConfigCommand(interaction: ChatInputCommandInteraction<'cached'>): Promise<void> {
+  const guildConfig = await prisma.guild.upsert({
+    where: { id: interaction.guildId },
+    update: {},
+    create: {
+      id: interaction.guildId,
+      name: interaction.guild.name,
+      moderatorRoleIds: '',
+    },
+  });
+
+  const subcommand = interaction.options.getSubcommand();
+
+  switch (subcommand) {
+    case 'show': {
+      const embed = new EmbedBuilder()
+        .setTitle('No CSAM Settings')
+        .setColor(0x5865F2)
+        .addFields(
+          {
+            name: 'Alert Channel',
+            value: guildConfig.alertChannelId ? `<#${guildConfig.alertChannelId}>` : 'Not set',
+            inline: true,
+          },
+          {
+            name: 'Moderator Roles',
+            value: parseRoleIds(guildConfig.moderatorRoleIds).map(id => `<@&${id}>`).join(', ') || 'None',
+            inline: true,
+          },
+          { name: 'Detection', value: formatToggle(guildConfig.detectionEnabled), inline: true },
+          { name: 'Action', value: ACTION_POLICY_LABELS[getActionPolicy(guildConfig)], inline: true },
+          {
+            name: 'Thresholds',
+            value: formatThresholds(guildConfig.detectionThreshold, guildConfig.reviewThreshold),
+            inline: true,
+          }
+        )
+        .setTimestamp()
+        .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    case 'alert-channel': {
+      const channel = interaction.options.getChannel('channel', true);
+      await updateGuildConfig(interaction, { alertChannelId: channel.id });
+      await interaction.reply({
+        content: `Moderator alerts will be sent to ${channel}.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    case 'add-moderator-role': {
+      const role = interaction.options.getRole('role', true);
+      const roleIds = parseRoleIds(guildConfig.moderatorRoleIds);
+
+      if (roleIds.includes(role.id)) {
+        await interaction.reply({ content: `${role} is already a moderator role.`, flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      await updateGuildConfig(interaction, { moderatorRoleIds: [...roleIds, role.id].join(',') });
+      await interaction.reply({ content: `Added ${role} as a moderator role.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    case 'remove-moderator-role': {
+      const role = interaction.options.getRole('role', true);
+      const roleIds = parseRoleIds(guildConfig.moderatorRoleIds);
+
+      if (!roleIds.includes(role.id)) {
+        await interaction.reply({ content: `${role} is not a moderator role.`, flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      await updateGuildConfig(interaction, {
+        moderatorRoleIds: roleIds.filter(id => id !== role.id).join(','),
+      });
+      await interaction.reply({ content: `Removed ${role} from the moderator roles.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    case 'detection': {
+      const enabled = interaction.options.getBoolean('enabled', true);
+      await updateGuildConfig(interaction, { detectionEnabled: enabled });
+      await interaction.reply({ content: `Detection is now ${formatToggle(enabled).toLowerCase()}.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    case 'action': {
+      const policy = interaction.options.getString('policy', true);
+
+      if (!isActionPolicy(policy)) {
+        await interaction.reply({ content: 'Unknown action policy.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      await updateGuildConfig(interaction, { actionPolicy: policy });
+      await interaction.reply({
+        content: `Confirmed hits will now be handled with: **${ACTION_POLICY_LABELS[policy]}**.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    case 'thresholds': {
+      if (interaction.options.getBoolean('reset')) {
+        await updateGuildConfig(interaction, { detectionThreshold: null, reviewThreshold: null });
+        await interaction.reply({
+          content: `Thresholds reset to the global defaults (${formatThresholds(null, null)}).`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      const detection = interaction.options.getNumber('detection');
+      const review = interaction.options.getNumber('review');
+
+      if (detection === null && review === null) {
+        await interaction.reply({
+          content: 'Give a detection or review threshold, or use reset.',
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      const detectionThreshold = detection ?? guildConfig.detectionThreshold;
+      const reviewThreshold = review ?? guildConfig.reviewThreshold;
+      const error = validateThresholds(resolveThresholds({ detectionThreshold, reviewThreshold }));
+      if (error) {
+        await interaction.reply({ content: `${error}.`, flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      await updateGuildConfig(interaction, { detectionThreshold, reviewThreshold });
+      await interaction.reply({
+        content: `Thresholds updated: ${formatThresholds(detectionThreshold, reviewThreshold)}.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    default:
+      await interaction.reply({ content: 'Unknown config option.', flags: MessageFlags.Ephemeral });
+  }
+}
+
+async function updateGuildConfig(
+  interaction: ChatInputCommandInteraction<'cached'>,
+  data: {
+    alertChannelId?: string;
+    moderatorRoleIds?: string;
+    detectionEnabled?: boolean;
+    actionPolicy?: ActionPolicy;
+    detectionThreshold?: number | null;
+    reviewThreshold?: number | null;
+  }
+): Promise<void> {
+  await prisma.guild.update({
+    where: { id: interaction.guildId },
+    data: { ...data, name: interaction.guild.name },
+  });
+
+  logger.info('Guild configuration updated', {
+    guildId: interaction.guildId,
+    moderatorId: interaction.user.id,
+    changes: data,
+  });
+}
+
+function formatToggle(enabled: boolean): string {
+  return enabled ? 'Enabled' : 'Disabled';
+}
+
+function formatThresholds(detectionThreshold: number | null, reviewThreshold: number | null): string {
+  const thresholds = resolveThresholds({ detectionThreshold, reviewThreshold });
+  const source = detectionThreshold === null && reviewThreshold === null ? ' (default)' : '';
+  return `Detection ${thresholds.detection}, review ${thresholds.review}${source}`;
+}
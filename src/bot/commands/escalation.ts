@@ -0,0 +1,128 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  MessageFlags,
+  SlashCommandSubcommandGroupBuilder,
+} from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../../config/config';
+import { isSeverity } from '../../detection/hashLists';
+import {
+  describeEscalationStep,
+  describeStepConditions,
+  loadEscalationPolicy,
+  previewEscalation,
+} from '../handlers/escalation';
+import { ACTION_POLICY_LABELS, getActionPolicy, policyOffenseAction } from '../handlers/actionPolicy';
+
+const prisma = new PrismaClient();
+
+export const escalationSubcommandGroup = new SlashCommandSubcommandGroupBuilder()
+  .setName('escalation')
+  .setDescription('Inspect the offense escalation ladder')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('show')
+      .setDescription('Show the escalation steps and the offense look-back window')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('preview')
+      .setDescription('Preview which escalation step a user would hit next')
+      .addUserOption(option =>
+        option.setName('user').setDescription('User to preview').setRequired(true)
+      )
+      .addStringOption(option =>
+        option
+          .setName('method')
+          .setDescription('Detection method of the next offense')
+          .addChoices(
+            { name: 'Hash match', value: 'hash_match' },
+            { name: 'Classifier', value: 'classifier' }
+          )
+      )
+      .addStringOption(option =>
+        option
+          .setName('severity')
+          .setDescription('Severity of the next offense')
+          .addChoices(
+            { name: 'High', value: 'high' },
+            { name: 'Medium', value: 'medium' },
+            { name: 'Low', value: 'low' }
+          )
+      )
+  );
+
+export async function handleEscalationCommand(interaction: ChatInputCommandInteraction<'cached'>): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  switch (subcommand) {
+    case 'show': {
+      const { steps } = loadEscalationPolicy();
+
+      const embed = new EmbedBuilder()
+        .setTitle('Escalation Ladder')
+        .setColor(0x5865F2)
+        .setDescription(`The first matching step applies. Offenses count for ${formatWindow()}.`)
+        .addFields(steps.length > 0
+          ? steps.map((step, index) => ({
+              name: `${index + 1}. ${describeEscalationStep(step)}`,
+              value: describeStepConditions(step),
+              inline: false,
+            }))
+          : [{ name: 'No steps', value: 'Offenses are recorded but no action is taken.', inline: false }])
+        .setTimestamp()
+        .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    case 'preview': {
+      const user = interaction.options.getUser('user', true);
+      const method = interaction.options.getString('method') ?? 'classifier';
+      const severity = interaction.options.getString('severity') ?? 'high';
+
+      if (!isSeverity(severity)) {
+        await interaction.reply({ content: 'Unknown severity.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      const { offenseCount, step, stepIndex } = await previewEscalation(user.id, { method, severity });
+
+      const guildConfig = await prisma.guild.findUnique({ where: { id: interaction.guildId } });
+      const policy = guildConfig ? getActionPolicy(guildConfig) : null;
+      const serverAction = policy ? policyOffenseAction(policy) : 'timeout';
+
+      let outcome = stepIndex >= 0 ? `Step ${stepIndex + 1}: ${describeEscalationStep(step)}` : describeEscalationStep(step);
+      if (policy && !serverAction) {
+        outcome += `\nThis server's action policy (${ACTION_POLICY_LABELS[policy]}) skips escalation.`;
+      } else if (serverAction === 'ban' && step?.action === 'timeout') {
+        outcome += '\nThis server bans instead of timing out.';
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle('Escalation Preview')
+        .setColor(0xFFA500)
+        .addFields(
+          { name: 'User', value: `${user.tag} (${user.id})`, inline: true },
+          { name: 'Recent Offenses', value: `${offenseCount - 1} in ${formatWindow()}`, inline: true },
+          { name: 'Next Offense', value: `${method === 'hash_match' ? 'Hash match' : 'Classifier'}, ${severity} severity`, inline: true },
+          { name: 'Would Trigger', value: outcome, inline: false }
+        )
+        .setTimestamp()
+        .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+      await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    default:
+      await interaction.reply({ content: 'Unknown escalation option.', flags: MessageFlags.Ephemeral });
+  }
+}
+
+function formatWindow(): string {
+  const days = config.escalation.offenseWindowDays;
+  return days > 0 ? `the last ${days} days` : 'all time';
+}
@@ -0,0 +1,70 @@
+import {
+  ChatInputCommandInteraction,
+  Client,
+  EmbedBuilder,
+  MessageFlags,
+  SlashCommandSubcommandBuilder,
+} from 'discord.js';
+import { GuildUnbanStatus, revokeGlobalBan } from '../handlers/timeoutManager';
+import { isNetworkModerator } from '../handlers/permissions';
+
+const UNBAN_STATUS_LABELS: Record<GuildUnbanStatus, string> = {
+  unbanned: 'Unbanned',
+  kept_manual_ban: 'Kept, banned by a moderator',
+  failed: 'Failed',
+  unavailable: 'Bot no longer in server',
+};
+
+export const revokeGlobalBanSubcommand = new SlashCommandSubcommandBuilder()
+  .setName('revoke-global-ban')
+  .setDescription('Revoke a global ban and unban the user everywhere the bot banned them')
+  .addUserOption(option =>
+    option.setName('user').setDescription('Globally banned user').setRequired(true)
+  )
+  .addStringOption(option =>
+    option.setName('reason').setDescription('Why the global ban is revoked').setRequired(true).setMaxLength(500)
+  );
+
+export async function handleRevokeGlobalBanCommand(
+  interaction: ChatInputCommandInteraction<'cached'>,
+  client: Client
+): Promise<void> {
+  if (!await isNetworkModerator(client, interaction.user.id)) {
+    await interaction.reply({
+      content: 'Only network moderators can revoke global bans.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const user = interaction.options.getUser('user', true);
+  const reason = interaction.options.getString('reason', true).trim();
+
+  // Unbanning in every server can take longer than the three seconds Discord allows for a reply.
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const result = await revokeGlobalBan(user.id, interaction.user.id, reason, client);
+
+  if (!result.success) {
+    await interaction.editReply({ content: result.message });
+    return;
+  }
+
+  const lines = result.results.map(entry =>
+    `${entry.guildName ?? entry.guildId}: ${UNBAN_STATUS_LABELS[entry.status]}${entry.error ? ` (${entry.error})` : ''}`
+  );
+
+  const embed = new EmbedBuilder()
+    .setTitle('Global Ban Revoked')
+    .setColor(0x00FF00)
+    .setDescription(result.message)
+    .addFields(
+      { name: 'User', value: `${user.tag} (${user.id})`, inline: true },
+      { name: 'Reason', value: reason, inline: false },
+      { name: 'Servers', value: lines.length > 0 ? lines.join('\n').slice(0, 1024) : 'No servers had a global ban from the bot', inline: false }
+    )
+    .setTimestamp()
+    .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+  await interaction.editReply({ embeds: [embed] });
+}
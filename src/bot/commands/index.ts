@@ -0,0 +1,45 @@
+import { ChatInputCommandInteraction, Client, MessageFlags } from 'discord.js';
+import { logger } from '../../utils/logger';
+import { BotCommand } from './types';
+import { nocsamCommand } from './nocsam';
+
+const commands: BotCommand[] = [nocsamCommand];
+
+export async function registerCommands(client: Client<true>): Promise<void> {
+  try {
+    await client.application.commands.set(commands.map(command => command.data.toJSON()));
+    logger.info('Application commands registered', { count: commands.length });
+  } catch (error) {
+    logger.error('Error registering application commands', { error });
+  }
+}
+
+export async function handleChatInputCommand(
+  interaction: ChatInputCommandInteraction,
+  client: Client
+): Promise<void> {
+  const command = commands.find(c => c.data.name === interaction.commandName);
+
+  if (!command) {
+    logger.warn('Unknown command received', { commandName: interaction.commandName });
+    return;
+  }
+
+  if (!interaction.inCachedGuild()) {
+    await interaction.reply({ content: 'This command can only be used in a server.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  try {
+    await command.execute(interaction, client);
+  } catch (error) {
+    logger.error('Error executing command', { error, commandName: interaction.commandName });
+
+    const reply = { content: 'Something went wrong while running this command.', flags: MessageFlags.Ephemeral } as const;
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp(reply);
+    } else {
+      await interaction.reply(reply);
+    }
+  }
+}
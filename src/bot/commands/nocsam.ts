@@ -0,0 +1,61 @@
+import { InteractionContextType, MessageFlags, SlashCommandBuilder } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { BotCommand } from './types';
+import { configSubcommandGroup, handleConfigCommand } from './config';
+import { escalationSubcommandGroup, handleEscalationCommand } from './escalation';
+import { handleUsageCommand, usageSubcommand } from './usage';
+import { handleRevokeGlobalBanCommand, revokeGlobalBanSubcommand } from './globalBan';
+import { isGuildModerator } from '../handlers/permissions';
+
+const prisma = new PrismaClient();
+
+export const nocsamCommand: BotCommand = {
+  data: new SlashCommandBuilder()
+    .setName('nocsam')
+    .setDescription('Manage the No CSAM bot')
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommandGroup(configSubcommandGroup)
+    .addSubcommandGroup(escalationSubcommandGroup)
+    .addSubcommand(usageSubcommand)
+    .addSubcommand(revokeGlobalBanSubcommand),
+
+  async execute(interaction, client) {
+    // Provider usage and global bans are network-wide, so they are gated on network moderators instead of server permissions.
+    if (!interaction.options.getSubcommandGroup()) {
+      switch (interaction.options.getSubcommand()) {
+        case 'usage':
+          await handleUsageCommand(interaction, client);
+          return;
+
+        case 'revoke-global-ban':
+          await handleRevokeGlobalBanCommand(interaction, client);
+          return;
+      }
+    }
+
+    const guildConfig = await prisma.guild.findUnique({ where: { id: interaction.guildId } });
+
+    if (!isGuildModerator(interaction.member, guildConfig?.moderatorRoleIds ?? '')) {
+      await interaction.reply({
+        content: 'You need the Manage Server permission or a moderator role to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const group = interaction.options.getSubcommandGroup();
+
+    switch (group) {
+      case 'config':
+        await handleConfigCommand(interaction);
+        return;
+
+      case 'escalation':
+        await handleEscalationCommand(interaction);
+        return;
+
+      default:
+        await interaction.reply({ content: 'Unknown command.', flags: MessageFlags.Ephemeral });
+    }
+  },
+};
@@ -0,0 +1,6 @@
+import { ChatInputCommandInteraction, Client, SlashCommandSubcommandsOnlyBuilder } from 'discord.js';
+
+export interface BotCommand {
+  data: SlashCommandSubcommandsOnlyBuilder;
+  execute: (interaction: ChatInputCommandInteraction<'cached'>, client: Client) => Promise<void>;
+}
@@ -0,0 +1,61 @@
+import {
+  ChatInputCommandInteraction,
+  Client,
+  EmbedBuilder,
+  MessageFlags,
+  SlashCommandSubcommandBuilder,
+} from 'discord.js';
+import { config } from '../../config/config';
+import { getEnabledDetectors } from '../../detection/providers/registry';
+import { getProviderUsage, ProviderUsage } from '../../detection/providerQuota';
+import { isNetworkModerator } from '../handlers/permissions';
+
+export const usageSubcommand = new SlashCommandSubcommandBuilder()
+  .setName('usage')
+  .setDescription('Show detection provider usage against the daily and monthly budgets');
+
+export async function handleUsageCommand(
+  interaction: ChatInputCommandInteraction<'cached'>,
+  client: Client
+): Promise<void> {
+  if (!await isNetworkModerator(client, interaction.user.id)) {
+    await interaction.reply({
+      content: 'Only network moderators can view provider usage.',
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const providers = getEnabledDetectors().map(provider => provider.name);
+  const usage = await getProviderUsage(providers);
+
+  const embed = new EmbedBuilder()
+    .setTitle('Provider Usage')
+    .setColor(0x5865F2)
+    .setDescription(`Budget policy: **${config.quota.exhaustedPolicy}**. Days and months are counted in UTC.`)
+    .addFields(providers.map(provider => ({
+      name: provider,
+      value: [
+        `Today: ${formatUsage(usage.find(entry => entry.provider === provider && entry.period === 'day'))}`,
+        `This month: ${formatUsage(usage.find(entry => entry.provider === provider && entry.period === 'month'))}`,
+      ].join('\n'),
+      inline: true,
+    })))
+    .setTimestamp()
+    .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+  await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+}
+
+function formatUsage(usage: ProviderUsage | undefined): string {
+  if (!usage) {
+    return 'No data';
+  }
+
+  if (usage.budget === null) {
+    return `${usage.calls.toLocaleString()} (no budget)`;
+  }
+
+  const percent = usage.budget > 0 ? Math.floor((usage.calls / usage.budget) * 100) : 100;
+  return `${usage.calls.toLocaleString()} / ${usage.budget.toLocaleString()} (${percent}%)`;
+}
@@ -0,0 +1,187 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  Client,
+  EmbedBuilder,
+  MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { isGuildModerator, isNetworkModerator } from '../handlers/permissions';
+import { AppealDecision, APPEAL_DECISION_LABELS, isAppealDecision, resolveAppeal, submitAppeal } from '../handlers/appealManager';
+import { APPEAL_DECISION_MODAL_PREFIX, APPEAL_MODAL_PREFIX } from './appealButtons';
+
+const prisma = new PrismaClient();
+
+const DECISION_COLORS: Record<AppealDecision, number> = {
+  accepted: 0x00FF00,
+  denied: 0x808080,
+};
+
+export async function handleAppealButton(interaction: ButtonInteraction): Promise<void> {
+  const [, detectionId] = interaction.customId.split(':');
+
+  if (!detectionId) {
+    await interaction.reply({ content: 'Invalid appeal.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${APPEAL_MODAL_PREFIX}:${detectionId}`)
+    .setTitle('Appeal')
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId('statement')
+          .setLabel('Why was this a mistake?')
+          .setStyle(TextInputStyle.Paragraph)
+          .setRequired(true)
+          .setMinLength(10)
+          .setMaxLength(1000)
+      )
+    );
+
+  await interaction.showModal(modal);
+}
+
+export async function handleAppealModal(interaction: ModalSubmitInteraction, client: Client): Promise<void> {
+  const [, detectionId] = interaction.customId.split(':');
+
+  if (!detectionId) {
+    await interaction.reply({ content: 'Invalid appeal.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const statement = interaction.fields.getTextInputValue('statement').trim();
+  const result = await submitAppeal(detectionId, interaction.user.id, statement, client);
+
+  await interaction.editReply({ content: result.message });
+}
+
+export async function handleAppealDecisionButton(interaction: ButtonInteraction, client: Client): Promise<void> {
+  const parsed = parseDecisionCustomId(interaction.customId);
+
+  if (!parsed) {
+    await interaction.reply({ content: 'Invalid appeal action.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const denial = await checkAppealPermission(interaction, parsed.appealId, client);
+  if (denial) {
+    await interaction.reply({ content: denial, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${APPEAL_DECISION_MODAL_PREFIX}:${parsed.decision}:${parsed.appealId}`)
+    .setTitle(APPEAL_DECISION_LABELS[parsed.decision])
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId('notes')
+          .setLabel('Notes (sent to the user)')
+          .setStyle(TextInputStyle.Paragraph)
+          .setRequired(false)
+          .setMaxLength(1000)
+      )
+    );
+
+  await interaction.showModal(modal);
+}
+
+export async function handleAppealDecisionModal(interaction: ModalSubmitInteraction, client: Client): Promise<void> {
+  const parsed = parseDecisionCustomId(interaction.customId);
+
+  if (!parsed || !interaction.isFromMessage()) {
+    await interaction.reply({ content: 'Invalid appeal action.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const denial = await checkAppealPermission(interaction, parsed.appealId, client);
+  if (denial) {
+    await interaction.reply({ content: denial, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferUpdate();
+
+  const notes = interaction.fields.getTextInputValue('notes').trim();
+  const result = await resolveAppeal(
+    parsed.appealId,
+    { id: interaction.user.id, username: interaction.user.username },
+    parsed.decision,
+    notes,
+    client
+  );
+
+  if (!result.success) {
+    await interaction.followUp({ content: result.message, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const original = interaction.message.embeds[0];
+  const embed = (original ? EmbedBuilder.from(original) : new EmbedBuilder().setTitle('Appeal'))
+    .setColor(DECISION_COLORS[parsed.decision])
+    .addFields(
+      { name: 'Decision', value: APPEAL_DECISION_LABELS[parsed.decision], inline: true },
+      { name: 'Decided By', value: `${interaction.user.tag} (<@${interaction.user.id}>)`, inline: true },
+      { name: 'Notes', value: notes || 'No notes provided', inline: false }
+    );
+
+  if (result.failures?.length) {
+    embed.addFields({ name: 'Not Undone', value: result.failures.join('\n').slice(0, 1024), inline: false });
+  }
+
+  await interaction.editReply({ embeds: [embed], components: [] });
+
+  logger.info('Appeal decision recorded from Discord', {
+    appealId: parsed.appealId,
+    reviewerId: interaction.user.id,
+    decision: parsed.decision,
+  });
+}
+
+async function checkAppealPermission(
+  interaction: ButtonInteraction | ModalSubmitInteraction,
+  appealId: string,
+  client: Client
+): Promise<string | null> {
+  const appeal = await prisma.appeal.findUnique({ where: { id: appealId } });
+
+  if (!appeal) {
+    return 'Appeal not found.';
+  }
+
+  if (await isNetworkModerator(client, interaction.user.id)) {
+    return null;
+  }
+
+  if (appeal.scope === 'global') {
+    return 'Only network moderators can decide global ban appeals.';
+  }
+
+  if (!interaction.inCachedGuild() || interaction.guildId !== appeal.guildId) {
+    return 'Only moderators of the server the appeal came from can decide it.';
+  }
+
+  const guildConfig = await prisma.guild.findUnique({ where: { id: interaction.guildId } });
+  return isGuildModerator(interaction.member, guildConfig?.moderatorRoleIds ?? '')
+    ? null
+    : 'You need the Manage Server permission or a moderator role to decide appeals.';
+}
+
+function parseDecisionCustomId(customId: string): { decision: AppealDecision; appealId: string } | null {
+  const [, decision, appealId] = customId.split(':');
+
+  if (!appealId || !isAppealDecision(decision)) {
+    return null;
+  }
+
+  return { decision, appealId };
+}
@@ -0,0 +1,28 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+export const APPEAL_BUTTON_PREFIX = 'appeal';
+export const APPEAL_MODAL_PREFIX = 'appeal-modal';
+export const APPEAL_DECISION_BUTTON_PREFIX = 'appeal-decision';
+export const APPEAL_DECISION_MODAL_PREFIX = 'appeal-decision-modal';
+
+export function buildAppealButton(detectionId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${APPEAL_BUTTON_PREFIX}:${detectionId}`)
+      .setLabel('Appeal')
+      .setStyle(ButtonStyle.Primary)
+  );
+}
+
+export function buildAppealDecisionButtons(appealId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${APPEAL_DECISION_BUTTON_PREFIX}:accepted:${appealId}`)
+      .setLabel('Accept appeal')
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId(`${APPEAL_DECISION_BUTTON_PREFIX}:denied:${appealId}`)
+      .setLabel('Deny appeal')
+      .setStyle(ButtonStyle.Danger)
+  );
+}
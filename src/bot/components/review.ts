@@ -0,0 +1,150 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  Client,
+  EmbedBuilder,
+  MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { isGuildModerator, isNetworkModerator } from '../handlers/permissions';
+import {
+  isReviewDecision,
+  requiresNetworkModerator,
+  resolveReview,
+  ReviewDecision,
+  REVIEW_DECISION_LABELS,
+} from '../handlers/reviewManager';
+import { REVIEW_MODAL_PREFIX } from './reviewButtons';
+
+const prisma = new PrismaClient();
+
+const DECISION_COLORS: Record<ReviewDecision, number> = {
+  approved: 0xFF0000,
+  rejected: 0x808080,
+  false_positive: 0x00FF00,
+};
+
+export async function handleReviewButton(interaction: ButtonInteraction, client: Client): Promise<void> {
+  const parsed = parseCustomId(interaction.customId);
+
+  if (!parsed) {
+    await interaction.reply({ content: 'Invalid review action.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const denial = await checkReviewPermission(interaction, parsed.detectionId, parsed.decision, client);
+  if (denial) {
+    await interaction.reply({ content: denial, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`${REVIEW_MODAL_PREFIX}:${parsed.decision}:${parsed.detectionId}`)
+    .setTitle(REVIEW_DECISION_LABELS[parsed.decision])
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId('notes')
+          .setLabel('Notes')
+          .setStyle(TextInputStyle.Paragraph)
+          .setRequired(false)
+          .setMaxLength(1000)
+      )
+    );
+
+  await interaction.showModal(modal);
+}
+
+export async function handleReviewModal(interaction: ModalSubmitInteraction, client: Client): Promise<void> {
+  const parsed = parseCustomId(interaction.customId);
+
+  if (!parsed || !interaction.isFromMessage()) {
+    await interaction.reply({ content: 'Invalid review action.', flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const denial = await checkReviewPermission(interaction, parsed.detectionId, parsed.decision, client);
+  if (denial) {
+    await interaction.reply({ content: denial, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferUpdate();
+
+  const notes = interaction.fields.getTextInputValue('notes').trim();
+  const result = await resolveReview(
+    parsed.detectionId,
+    { id: interaction.user.id, username: interaction.user.username },
+    parsed.decision,
+    notes,
+    client
+  );
+
+  if (!result.success) {
+    await interaction.followUp({ content: result.message, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const original = interaction.message.embeds[0];
+  const embed = (original ? EmbedBuilder.from(original) : new EmbedBuilder().setTitle('Review'))
+    .setColor(DECISION_COLORS[parsed.decision])
+    .addFields(
+      { name: 'Decision', value: REVIEW_DECISION_LABELS[parsed.decision], inline: true },
+      { name: 'Reviewed By', value: `${interaction.user.tag} (<@${interaction.user.id}>)`, inline: true },
+      { name: 'Notes', value: notes || 'No notes provided', inline: false }
+    );
+
+  await interaction.editReply({ embeds: [embed], components: [] });
+
+  logger.info('Review decision recorded from Discord', {
+    detectionId: parsed.detectionId,
+    reviewerId: interaction.user.id,
+    decision: parsed.decision,
+  });
+}
+
+async function checkReviewPermission(
+  interaction: ButtonInteraction | ModalSubmitInteraction,
+  detectionId: string,
+  decision: ReviewDecision,
+  client: Client
+): Promise<string | null> {
+  const networkModerator = await isNetworkModerator(client, interaction.user.id);
+
+  if (decision === 'approved') {
+    return networkModerator ? null : 'Only network moderators can approve global bans.';
+  }
+
+  const review = await prisma.moderatorReview.findUnique({ where: { detectionId } });
+  if (review && requiresNetworkModerator(review.level, decision)) {
+    return networkModerator ? null : 'Only network moderators can decide global ban reviews.';
+  }
+
+  if (networkModerator) {
+    return null;
+  }
+
+  if (!interaction.inCachedGuild()) {
+    return 'Reviews can only be resolved from a server.';
+  }
+
+  const guildConfig = await prisma.guild.findUnique({ where: { id: interaction.guildId } });
+  return isGuildModerator(interaction.member, guildConfig?.moderatorRoleIds ?? '')
+    ? null
+    : 'You need the Manage Server permission or a moderator role to review detections.';
+}
+
+function parseCustomId(customId: string): { decision: ReviewDecision; detectionId: string } | null {
+  const [, decision, detectionId] = customId.split(':');
+
+  if (!detectionId || !isReviewDecision(decision)) {
+    return null;
+  }
+
+  return { decision, detectionId };
+}
@@ -0,0 +1,21 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+export const REVIEW_BUTTON_PREFIX = 'review';
+export const REVIEW_MODAL_PREFIX = 'review-modal';
+
+export function buildReviewButtons(detectionId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${REVIEW_BUTTON_PREFIX}:approved:${detectionId}`)
+      .setLabel('Approve global ban')
+      .setStyle(ButtonStyle.Danger),
+    new ButtonBuilder()
+      .setCustomId(`${REVIEW_BUTTON_PREFIX}:rejected:${detectionId}`)
+      .setLabel('Reject')
+      .setStyle(ButtonStyle.Secondary),
+    new ButtonBuilder()
+      .setCustomId(`${REVIEW_BUTTON_PREFIX}:false_positive:${detectionId}`)
+      .setLabel('Mark false positive')
+      .setStyle(ButtonStyle.Success)
+  );
+}
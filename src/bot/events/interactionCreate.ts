@@ -0,0 +1,48 @@
+import { Client, Interaction } from 'discord.js';
+import { handleChatInputCommand } from '../commands';
+import { handleReviewButton, handleReviewModal } from '../components/review';
+import { REVIEW_BUTTON_PREFIX, REVIEW_MODAL_PREFIX } from '../components/reviewButtons';
+import {
+  handleAppealButton,
+  handleAppealDecisionButton,
+  handleAppealDecisionModal,
+  handleAppealModal,
+} from '../components/appeal';
+import {
+  APPEAL_BUTTON_PREFIX,
+  APPEAL_DECISION_BUTTON_PREFIX,
+  APPEAL_DECISION_MODAL_PREFIX,
+  APPEAL_MODAL_PREFIX,
+} from '../components/appealButtons';
+
+export async function handleInteractionCreate(interaction: Interaction, client: Client): Promise<void> {
+  if (interaction.isChatInputCommand()) {
+    await handleChatInputCommand(interaction, client);
+    return;
+  }
+
+  if (interaction.isButton()) {
+    const [prefix] = interaction.customId.split(':');
+
+    if (prefix === REVIEW_BUTTON_PREFIX) {
+      await handleReviewButton(interaction, client);
+    } else if (prefix === APPEAL_BUTTON_PREFIX) {
+      await handleAppealButton(interaction);
+    } else if (prefix === APPEAL_DECISION_BUTTON_PREFIX) {
+      await handleAppealDecisionButton(interaction, client);
+    }
+    return;
+  }
+
+  if (interaction.isModalSubmit()) {
+    const [prefix] = interaction.customId.split(':');
+
+    if (prefix === REVIEW_MODAL_PREFIX) {
+      await handleReviewModal(interaction, client);
+    } else if (prefix === APPEAL_MODAL_PREFIX) {
+      await handleAppealModal(interaction, client);
+    } else if (prefix === APPEAL_DECISION_MODAL_PREFIX) {
+      await handleAppealDecisionModal(interaction, client);
+    }
+  }
+}
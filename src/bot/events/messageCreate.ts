@@ -1,188 +1,340 @@
-import { Message, Client } from 'discord.js';
-import { PrismaClient } from '@prisma/client';
-import { scanImageQueued } from '../../detection/detectionPipeline';
+import { Message, Client, Guild, User } from 'discord.js';
+import { Guild as GuildConfig, PrismaClient } from '@prisma/client';
+import { DetectionResult } from '../../detection/detectionPipeline';
+import { enqueueScan, ScanPriority } from '../../detection/scanQueue';
 import { handleUserOffense } from '../handlers/timeoutManager';
 import { alertModerators, sendDMAlert, notifyModeratorOfPendingReview } from '../handlers/moderatorAlert';
 import { logger, logDetection } from '../../utils/logger';
+import { publishBotEvent } from '../../utils/eventBus';
+import { extractImageSources, ImageSourceType, isImageSourceType } from '../handlers/imageSources';
+import { getActionPolicy, policyDeletesMessage, policyOffenseAction } from '../handlers/actionPolicy';
+import { EscalationAction, getDetectionSeverity } from '../handlers/escalation';
 
 const prisma = new PrismaClient();
 
-const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const MESSAGE_IMAGE_SCAN = 'message-image';
 
-export async function handleMessageCreate(message: Message, client: Client): Promise<void> {
+export interface MessageImageScanPayload {
+  guildId: string;
+  channelId: string;
+  messageId: string;
+  userId: string;
+  imageUrl: string;
+  sourceType: ImageSourceType;
+}
+
+const SCAN_PAYLOAD_FIELDS = ['guildId', 'channelId', 'messageId', 'userId', 'imageUrl'] as const;
+
+// Payloads are read back from the database, so jobs written by another version are checked before use.
+export function parseMessageImageScanPayload(payload: unknown): MessageImageScanPayload | null {
+  if (typeof payload !== 'object' || payload === null) {
+    return null;
+  }
+
+  const record = payload as Record<string, unknown>;
+
+  if (SCAN_PAYLOAD_FIELDS.some(field => typeof record[field] !== 'string') || !isImageSourceType(record.sourceType)) {
+    return null;
+  }
+
+  return record as unknown as MessageImageScanPayload;
+}
+
+const OFFENSE_ACTION_SUFFIXES: Record<Exclude<EscalationAction, 'none'>, string> = {
+  timeout: 'and_timed_out',
+  ban: 'and_banned',
+  global_review: 'pending_review',
+};
+
+const OFFENSE_ACTION_LABELS: Record<Exclude<EscalationAction, 'none'>, string> = {
+  timeout: 'timed out',
+  ban: 'banned',
+  global_review: 'queued for global ban review',
+};
+
+interface ScanTarget {
+  guild: Guild;
+  // Null when the account could not be fetched, for example because it was deleted
+  user: User | null;
+  message: Message | null;
+  payload: MessageImageScanPayload;
+}
+
+export async function handleMessageCreate(message: Message): Promise<void> {
+  await scanMessageImages(message);
+}
+
+export async function scanMessageImages(
+  message: Message,
+  alreadyScanned: { urls: ReadonlySet<string>; hashes: ReadonlySet<string> } = { urls: new Set(), hashes: new Set() },
+  priority: ScanPriority = 'normal'
+): Promise<void> {
   if (message.author.bot) return;
   if (!message.guild) return;
 
-  const guildConfig = await prisma.guild.findUnique({ where: { id: message.guild.id } });
+  const imageSources = extractImageSources(message).filter(source => !alreadyScanned.urls.has(source.url));
 
-  if (!guildConfig || !guildConfig.detectionEnabled) {
+  if (imageSources.length === 0) {
     return;
   }
 
-  const imageAttachments = message.attachments.filter(attachment =>
-    SUPPORTED_IMAGE_TYPES.some(type => attachment.contentType?.startsWith(type))
-  );
+  const guildConfig = await prisma.guild.findUnique({ where: { id: message.guild.id } });
 
-  if (imageAttachments.size === 0) {
+  if (!guildConfig || !guildConfig.detectionEnabled) {
     return;
   }
 
-  for (const attachment of imageAttachments.values()) {
+  for (const source of imageSources) {
     try {
-      await processImageAttachment(message, attachment.url, guildConfig, client);
+      const payload: MessageImageScanPayload = {
+        guildId: message.guild.id,
+        channelId: message.channel.id,
+        messageId: message.id,
+        userId: message.author.id,
+        imageUrl: source.url,
+        sourceType: source.sourceType,
+      };
+
+      await enqueueScan({
+        kind: MESSAGE_IMAGE_SCAN,
+        guildId: message.guild.id,
+        messageId: message.id,
+        imageUrl: source.url,
+        payload,
+        priority,
+        skipHashes: alreadyScanned.hashes,
+      });
+
+      logger.info('Queued image scan', {
+        messageId: message.id,
+        userId: message.author.id,
+        guildId: message.guild.id,
+        sourceType: source.sourceType,
+      });
     } catch (error) {
-      logger.error('Error processing image attachment', {
+      logger.error('Error queueing image scan', {
         error,
         messageId: message.id,
-        attachmentUrl: attachment.url,
+        imageUrl: source.url,
+        sourceType: source.sourceType,
       });
     }
   }
 }
 
-async function processImageAttachment(
-  message: Message,
-  imageUrl: string,
-  guildConfig: any,
+export async function handleMessageImageScan(
+  payload: MessageImageScanPayload,
+  detection: DetectionResult | null,
   client: Client
 ): Promise<void> {
-  try {
-    logger.info('Scanning image', {
-      messageId: message.id,
-      userId: message.author.id,
-      guildId: message.guild!.id,
-    });
+  if (!detection) {
+    return;
+  }
 
-    const detection = await scanImageQueued(imageUrl);
+  const guild = client.guilds.cache.get(payload.guildId);
+  const guildConfig = await prisma.guild.findUnique({ where: { id: payload.guildId } });
 
-    await prisma.detection.create({
-      data: {
-        userId: message.author.id,
-        guildId: message.guild!.id,
-        channelId: message.channel.id,
-        messageId: message.id,
-        imageUrl,
-        imageHash: detection.hash,
-        detectionMethod: detection.method,
-        confidenceScore: detection.confidence,
-        flagged: detection.flagged,
-        actionTaken: detection.flagged ? 'pending' : 'none',
-        metadata: JSON.stringify(detection.details),
-      },
+  if (!guild || !guildConfig) {
+    logger.warn('Guild unavailable for scanned image', { guildId: payload.guildId, messageId: payload.messageId });
+    return;
+  }
+
+  // Scans can finish after a restart, so the message is fetched again and may be gone by now.
+  const message = await fetchMessage(guild, payload.channelId, payload.messageId);
+  const target: ScanTarget = {
+    guild,
+    user: message?.author ?? await fetchUser(client, payload.userId),
+    message,
+    payload,
+  };
+
+  const detectionRecord = await prisma.detection.create({
+    data: {
+      userId: payload.userId,
+      guildId: payload.guildId,
+      channelId: payload.channelId,
+      messageId: payload.messageId,
+      imageUrl: payload.imageUrl,
+      sourceType: payload.sourceType,
+      imageHash: detection.hash,
+      contentHash: detection.contentHash,
+      detectionMethod: detection.method,
+      confidenceScore: detection.confidence,
+      flagged: detection.flagged,
+      actionTaken: detection.flagged ? 'pending' : 'none',
+      metadata: JSON.stringify(detection.details),
+    },
+  });
+
+  if (detection.flagged && !detection.requiresReview) {
+    await handleFlaggedContent(target, detectionRecord.id, detection, guildConfig, client);
+  } else if (detection.requiresReview) {
+    await handleReviewRequired(target, detectionRecord.id, detection);
+  } else {
+    logger.info('Image passed detection', {
+      messageId: payload.messageId,
+      confidence: detection.confidence,
     });
+  }
+}
 
-    if (detection.flagged && !detection.requiresReview) {
-      await handleFlaggedContent(message, detection, guildConfig, client);
-    } else if (detection.requiresReview) {
-      await handleReviewRequired(message, detection);
-    } else {
-      logger.info('Image passed detection', {
-        messageId: message.id,
-        confidence: detection.confidence,
-      });
+async function fetchMessage(guild: Guild, channelId: string, messageId: string): Promise<Message | null> {
+  try {
+    const channel = await guild.channels.fetch(channelId);
+    if (!channel || !channel.isTextBased()) {
+      return null;
     }
+
+    return await channel.messages.fetch(messageId);
+  } catch {
+    return null;
+  }
+}
+
+async function fetchUser(client: Client, userId: string): Promise<User | null> {
+  try {
+    return await client.users.fetch(userId);
   } catch (error) {
-    logger.error('Error in image processing', {
-      error,
-      messageId: message.id,
-      imageUrl,
-    });
+    logger.warn('Could not fetch user for scanned image', { error, userId });
+    return null;
   }
 }
 
 async function handleFlaggedContent(
-  message: Message,
-  detection: any,
-  guildConfig: any,
+  { guild, user, message, payload }: ScanTarget,
+  detectionId: string,
+  detection: DetectionResult,
+  guildConfig: GuildConfig,
   client: Client
 ): Promise<void> {
   try {
-    if (guildConfig.autoDelete) {
+    const policy = getActionPolicy(guildConfig);
+    const deleted = policyDeletesMessage(policy) && message !== null;
+
+    if (deleted) {
       await message.delete();
-      logger.info('Deleted flagged message', { messageId: message.id });
+      logger.info('Deleted flagged message', { messageId: payload.messageId });
     }
 
+    let actionTaken = deleted ? 'deleted' : 'alerted';
+    let actionLabel = deleted ? 'Deleted' : policyDeletesMessage(policy) ? 'Message already removed' : 'Alert only';
+
     logDetection({
-      userId: message.author.id,
-      guildId: message.guild!.id,
+      userId: payload.userId,
+      guildId: guild.id,
       method: detection.method,
       confidence: detection.confidence,
-      action: 'deleted',
+      action: actionTaken,
     });
 
-    await prisma.detection.updateMany({
-      where: { messageId: message.id },
-      data: { actionTaken: 'deleted' },
+    await prisma.detection.update({
+      where: { id: detectionId },
+      data: { actionTaken },
     });
 
-    if (guildConfig.autoBan) {
-      const banResult = await handleUserOffense(
-        message.author.id,
-        message.guild!.id,
+    let offenseLevel: number | null = null;
+    const offenseAction = policyOffenseAction(policy);
+
+    if (offenseAction) {
+      const offenseResult = await handleUserOffense(
+        payload.userId,
+        guild.id,
         `CSAM detection: ${detection.method} (confidence: ${(detection.confidence * 100).toFixed(2)}%)`,
-        client
+        client,
+        { detectionId, method: detection.method, severity: getDetectionSeverity(detection) },
+        offenseAction
       );
 
-      await prisma.detection.updateMany({
-        where: { messageId: message.id },
-        data: { actionTaken: `deleted_and_banned_level_${banResult.level}` },
+      if (offenseResult.action !== 'none') {
+        actionTaken = `${actionTaken}_${OFFENSE_ACTION_SUFFIXES[offenseResult.action]}_level_${offenseResult.level}`;
+        actionLabel = `${actionLabel}, ${OFFENSE_ACTION_LABELS[offenseResult.action]} (Level ${offenseResult.level})`;
+      }
+
+      await prisma.detection.update({
+        where: { id: detectionId },
+        data: { actionTaken },
       });
 
-      logger.info('User banned', {
-        userId: message.author.id,
-        level: banResult.level,
-        requiresReview: banResult.requiresModeratorReview,
+      logger.info('Offense action applied', {
+        userId: payload.userId,
+        action: offenseResult.action,
+        level: offenseResult.level,
+        requiresReview: offenseResult.requiresModeratorReview,
       });
+
+      offenseLevel = offenseResult.level;
     }
 
-    await alertModerators(
-      message.guild!,
-      message.author,
-      detection,
-      guildConfig.autoBan ? `Deleted and banned (Level ${detection.flagged ? 1 : 2})` : 'Deleted'
-    );
+    publishBotEvent({
+      type: 'detection',
+      guildId: guild.id,
+      userId: payload.userId,
+      data: {
+        detectionId,
+        channelId: payload.channelId,
+        messageId: payload.messageId,
+        method: detection.method,
+        confidence: detection.confidence,
+        deleted,
+        actionPolicy: policy,
+        offenseLevel,
+      },
+    });
 
-    await sendDMAlert(
-      message.author,
-      'Your message contained content that violates our content policy and has been removed.'
-    );
+    await alertModerators(guild, payload.userId, user, detection, actionLabel);
+
+    if (deleted && user) {
+      await sendDMAlert(
+        user,
+        'Your message contained content that violates our content policy and has been removed.',
+        detectionId
+      );
+    }
   } catch (error) {
-    logger.error('Error handling flagged content', { error, messageId: message.id });
+    logger.error('Error handling flagged content', { error, messageId: payload.messageId });
   }
 }
 
 async function handleReviewRequired(
-  message: Message,
-  detection: any
+  { guild, message, payload }: ScanTarget,
+  detectionId: string,
+  detection: DetectionResult
 ): Promise<void> {
   try {
-    await message.react('⚠️');
+    await message?.react('⚠️');
 
-    const detectionRecord = await prisma.detection.findFirst({
-      where: { messageId: message.id },
-      orderBy: { createdAt: 'desc' },
+    await prisma.moderatorReview.create({
+      data: {
+        detectionId,
+        status: 'pending',
+      },
     });
 
-    if (detectionRecord) {
-      await prisma.moderatorReview.create({
-        data: {
-          detectionId: detectionRecord.id,
-          status: 'pending',
-        },
-      });
+    publishBotEvent({
+      type: 'review_created',
+      guildId: guild.id,
+      userId: payload.userId,
+      data: {
+        detectionId,
+        channelId: payload.channelId,
+        messageId: payload.messageId,
+        method: detection.method,
+        confidence: detection.confidence,
+        level: 1,
+      },
+    });
 
-      await notifyModeratorOfPendingReview(
-        message.guild!,
-        detectionRecord.id,
-        message.author.id
-      );
-    }
+    await notifyModeratorOfPendingReview(
+      guild,
+      detectionId,
+      payload.userId
+    );
 
     logger.info('Content flagged for review', {
-      messageId: message.id,
+      messageId: payload.messageId,
       confidence: detection.confidence,
     });
   } catch (error) {
-    logger.error('Error handling review required', { error, messageId: message.id });
+    logger.error('Error handling review required', { error, messageId: payload.messageId });
   }
 }
@@ -0,0 +1,49 @@
+import { Message, PartialMessage } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { MESSAGE_IMAGE_SCAN, scanMessageImages } from './messageCreate';
+import { logger } from '../../utils/logger';
+
+const prisma = new PrismaClient();
+
+export async function handleMessageUpdate(
+  oldMessage: Message | PartialMessage,
+  newMessage: Message
+): Promise<void> {
+  if (newMessage.author.bot) return;
+  if (!newMessage.guild) return;
+
+  if (!oldMessage.partial && !hasNewMedia(oldMessage, newMessage)) {
+    return;
+  }
+
+  try {
+    const [previous, queued] = await Promise.all([
+      prisma.detection.findMany({
+        where: { messageId: newMessage.id },
+        select: { imageUrl: true, imageHash: true },
+      }),
+      // Images from the original message may still be waiting in the scan queue.
+      prisma.scanJob.findMany({
+        where: { kind: MESSAGE_IMAGE_SCAN, messageId: newMessage.id },
+        select: { imageUrl: true },
+      }),
+    ]);
+
+    await scanMessageImages(newMessage, {
+      urls: new Set([...previous, ...queued].map(entry => entry.imageUrl)),
+      hashes: new Set(previous.map(detection => detection.imageHash)),
+    });
+  } catch (error) {
+    logger.error('Error re-scanning edited message', { error, messageId: newMessage.id });
+  }
+}
+
+function hasNewMedia(oldMessage: Message, newMessage: Message): boolean {
+  return oldMessage.content !== newMessage.content
+    || oldMessage.attachments.size !== newMessage.attachments.size
+    || oldMessage.embeds.length !== newMessage.embeds.length
+    || newMessage.embeds.some((embed, index) => {
+      const previous = oldMessage.embeds[index];
+      return embed.image?.url !== previous?.image?.url || embed.thumbnail?.url !== previous?.thumbnail?.url;
+    });
+}
@@ -0,0 +1,49 @@
+import { Guild as GuildConfig } from '@prisma/client';
+
+export const ACTION_POLICIES = ['delete_only', 'delete_timeout', 'delete_ban', 'alert_only'] as const;
+
+export type ActionPolicy = typeof ACTION_POLICIES[number];
+
+export const DEFAULT_ACTION_POLICY: ActionPolicy = 'delete_timeout';
+
+export const ACTION_POLICY_LABELS: Record<ActionPolicy, string> = {
+  delete_only: 'Delete only',
+  delete_timeout: 'Delete and time out',
+  delete_ban: 'Delete and ban',
+  alert_only: 'Alert only',
+};
+
+export function isActionPolicy(value: unknown): value is ActionPolicy {
+  return typeof value === 'string' && (ACTION_POLICIES as readonly string[]).includes(value);
+}
+
+export function getActionPolicy(guildConfig: GuildConfig): ActionPolicy {
+  return isActionPolicy(guildConfig.actionPolicy) ? guildConfig.actionPolicy : DEFAULT_ACTION_POLICY;
+}
+
+// Older versions stored two toggles. Deleting without timing out maps to delete_only; a server that timed out
+// without deleting has no matching policy and becomes alert_only, so the upgrade never adds an action.
+export function policyFromLegacySettings(autoDelete: boolean, autoTimeout: boolean): ActionPolicy {
+  if (!autoDelete) {
+    return 'alert_only';
+  }
+
+  return autoTimeout ? 'delete_timeout' : 'delete_only';
+}
+
+export function policyDeletesMessage(policy: ActionPolicy): boolean {
+  return policy !== 'alert_only';
+}
+
+// How the escalation ladder is applied in this server: timeout steps become bans under delete_ban,
+// and policies without an offender action skip the ladder entirely.
+export function policyOffenseAction(policy: ActionPolicy): 'timeout' | 'ban' | null {
+  switch (policy) {
+    case 'delete_timeout':
+      return 'timeout';
+    case 'delete_ban':
+      return 'ban';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,279 @@
+import { Client, EmbedBuilder } from 'discord.js';
+import { Appeal, Detection, PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { formatRoleMentions } from './permissions';
+import { liftBan, LiftOptions } from './banManager';
+import { liftTimeout, revokeGlobalBan } from './timeoutManager';
+import { ReviewerIdentity } from './reviewManager';
+import { buildAppealDecisionButtons } from '../components/appealButtons';
+
+const prisma = new PrismaClient();
+
+export type AppealDecision = 'accepted' | 'denied';
+
+// Appeals against a global ban go to the moderation server, everything else to the server's alert channel.
+export type AppealScope = 'server' | 'global';
+
+export interface AppealResult {
+  success: boolean;
+  message: string;
+  // Parts of an accepted appeal's action that could not be undone
+  failures?: string[];
+}
+
+export const APPEAL_DECISION_LABELS: Record<AppealDecision, string> = {
+  accepted: 'Appeal accepted',
+  denied: 'Appeal denied',
+};
+
+export function isAppealDecision(value: unknown): value is AppealDecision {
+  return typeof value === 'string' && Object.keys(APPEAL_DECISION_LABELS).includes(value);
+}
+
+export async function submitAppeal(
+  detectionId: string,
+  userId: string,
+  statement: string,
+  client: Client
+): Promise<AppealResult> {
+  try {
+    const detection = await prisma.detection.findUnique({
+      where: { id: detectionId },
+      include: { user: true, appeal: true },
+    });
+
+    if (!detection || detection.userId !== userId) {
+      return { success: false, message: 'This detection could not be found.' };
+    }
+
+    if (detection.appeal) {
+      return { success: false, message: `You have already appealed this action (${detection.appeal.status}).` };
+    }
+
+    if (!detection.flagged) {
+      return { success: false, message: 'This detection has already been cleared by a moderator.' };
+    }
+
+    const scope: AppealScope = detection.user.globallyBanned ? 'global' : 'server';
+
+    const appeal = await prisma.appeal.create({
+      data: {
+        detectionId,
+        userId,
+        guildId: detection.guildId,
+        scope,
+        statement,
+      },
+    });
+
+    // The appeal is only kept once moderators can see it, so a failed attempt can be retried.
+    let routed: boolean;
+    try {
+      routed = await routeAppeal(client, appeal, detection);
+    } catch (error) {
+      await prisma.appeal.delete({ where: { id: appeal.id } });
+      throw error;
+    }
+
+    if (!routed) {
+      await prisma.appeal.delete({ where: { id: appeal.id } });
+      return {
+        success: false,
+        message: 'There is no moderator channel to send your appeal to. Please contact the server moderators directly.',
+      };
+    }
+
+    logger.info('Appeal submitted', { appealId: appeal.id, detectionId, userId, scope });
+
+    return {
+      success: true,
+      message: 'Your appeal was sent to the moderators. You will get a message here once it has been decided.',
+    };
+  } catch (error) {
+    logger.error('Error submitting appeal', { error, detectionId, userId });
+    return { success: false, message: 'Your appeal could not be submitted, please try again later.' };
+  }
+}
+
+export async function resolveAppeal(
+  appealId: string,
+  reviewer: ReviewerIdentity,
+  decision: AppealDecision,
+  notes: string,
+  client: Client
+): Promise<AppealResult> {
+  try {
+    // Claiming the appeal and recording the decision in one step keeps two moderators from both deciding it.
+    const { count } = await prisma.appeal.updateMany({
+      where: { id: appealId, status: 'pending' },
+      data: {
+        status: decision,
+        reviewerId: reviewer.id,
+        notes: notes || null,
+        reviewedAt: new Date(),
+      },
+    });
+
+    const appeal = await prisma.appeal.findUnique({ where: { id: appealId } });
+
+    if (!appeal) {
+      return { success: false, message: 'Appeal not found' };
+    }
+
+    if (count === 0) {
+      return { success: false, message: `This appeal was already decided (${appeal.status})` };
+    }
+
+    const failures = decision === 'accepted' ? await undoDetectionAction(appeal, reviewer.id, client) : [];
+
+    await notifyAppellant(client, appeal, decision, notes, failures.length > 0);
+
+    logger.info('Appeal resolved', { appealId, reviewerId: reviewer.id, decision, failures });
+
+    if (failures.length > 0) {
+      return {
+        success: true,
+        message: `${APPEAL_DECISION_LABELS[decision]}, but not everything could be undone:\n${failures.join('\n')}`,
+        failures,
+      };
+    }
+
+    return { success: true, message: APPEAL_DECISION_LABELS[decision] };
+  } catch (error) {
+    logger.error('Error resolving appeal', { error, appealId });
+    return { success: false, message: 'Failed to resolve appeal' };
+  }
+}
+
+// Returns a line for each part of the action that is still in place.
+async function undoDetectionAction(appeal: Appeal, moderatorId: string, client: Client): Promise<string[]> {
+  const options: LiftOptions = { reason: `Appeal accepted (${appeal.id})`, moderatorId };
+  const failures: string[] = [];
+
+  if (appeal.scope === 'global') {
+    const revocation = await revokeGlobalBan(appeal.userId, moderatorId, options.reason, client);
+
+    if (!revocation.success) {
+      logger.error('Failed to revoke global ban for appeal', { appealId: appeal.id, message: revocation.message });
+      failures.push(`Global ban: ${revocation.message}`);
+    }
+
+    for (const entry of revocation.results.filter(result => result.status === 'failed')) {
+      failures.push(`Global ban in ${entry.guildName ?? entry.guildId}: ${entry.error ?? 'unban failed'}`);
+    }
+  }
+
+  const guild = client.guilds.cache.get(appeal.guildId);
+
+  if (guild) {
+    try {
+      const serverBan = await prisma.ban.findFirst({
+        where: { userId: appeal.userId, guildId: guild.id, banType: 'server', issuedByBot: true, active: true },
+      });
+
+      if (serverBan) {
+        await liftBan(guild, appeal.userId, options);
+      }
+
+      await liftTimeout(guild, appeal.userId, options);
+    } catch (error) {
+      logger.error('Failed to undo server action for appeal', { error, appealId: appeal.id, guildId: guild.id });
+      failures.push(`Timeout or ban in ${guild.name}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  } else {
+    failures.push(`Timeout or ban in ${appeal.guildId}: the bot is no longer in this server`);
+  }
+
+  await prisma.offense.updateMany({
+    where: { detectionId: appeal.detectionId, revoked: false },
+    data: { revoked: true },
+  });
+
+  return failures;
+}
+
+// Returns false when neither the server nor the moderation server has a channel for the appeal.
+async function routeAppeal(client: Client, appeal: Appeal, detection: Detection): Promise<boolean> {
+  const guild = client.guilds.cache.get(appeal.guildId);
+  let channel = null;
+  let mentions = '';
+
+  if (appeal.scope === 'server' && guild) {
+    const guildConfig = await prisma.guild.findUnique({ where: { id: guild.id } });
+
+    if (guildConfig?.alertChannelId) {
+      channel = guild.channels.cache.get(guildConfig.alertChannelId) ?? null;
+      mentions = formatRoleMentions(guildConfig.moderatorRoleIds);
+    }
+  }
+
+  // Servers without an alert channel fall back to the moderation server so the appeal is not lost.
+  if (!channel) {
+    const botConfig = await prisma.botConfig.findUnique({ where: { id: 'main' } });
+
+    if (botConfig?.moderationServerId && botConfig.moderationChannelId) {
+      channel = client.guilds.cache
+        .get(botConfig.moderationServerId)
+        ?.channels.cache.get(botConfig.moderationChannelId) ?? null;
+    }
+  }
+
+  if (!channel || !channel.isTextBased()) {
+    logger.warn('No channel to route appeal to', { appealId: appeal.id, guildId: appeal.guildId, scope: appeal.scope });
+    return false;
+  }
+
+  const user = await client.users.fetch(appeal.userId);
+
+  const embed = new EmbedBuilder()
+    .setTitle(appeal.scope === 'global' ? 'Global Ban Appeal' : 'Appeal Submitted')
+    .setColor(0x5865F2)
+    .setDescription('A user has appealed the action taken on this detection. Accepting the appeal lifts the timeout or ban and removes the offense.')
+    .addFields(
+      { name: 'User', value: `${user.tag} (${user.id})`, inline: true },
+      { name: 'Server', value: guild ? `${guild.name} (${guild.id})` : appeal.guildId, inline: true },
+      { name: 'Detection ID', value: detection.id, inline: true },
+      { name: 'Detection Method', value: detection.detectionMethod, inline: true },
+      { name: 'Confidence', value: `${(detection.confidenceScore * 100).toFixed(2)}%`, inline: true },
+      { name: 'Action Taken', value: detection.actionTaken ?? 'None', inline: true },
+      { name: 'Statement', value: appeal.statement, inline: false }
+    )
+    .setTimestamp()
+    .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+  await channel.send({
+    content: mentions || undefined,
+    embeds: [embed],
+    components: [buildAppealDecisionButtons(appeal.id)],
+  });
+
+  return true;
+}
+
+async function notifyAppellant(
+  client: Client,
+  appeal: Appeal,
+  decision: AppealDecision,
+  notes: string,
+  incomplete: boolean
+): Promise<void> {
+  try {
+    const user = await client.users.fetch(appeal.userId);
+
+    const embed = new EmbedBuilder()
+      .setTitle(decision === 'accepted' ? 'Appeal Accepted' : 'Appeal Denied')
+      .setColor(decision === 'accepted' ? 0x00FF00 : 0xFF0000)
+      .setDescription(decision === 'denied'
+        ? 'The moderators reviewed your appeal and the action taken against you stands.'
+        : incomplete
+          ? 'The moderators accepted your appeal, but part of the action taken against you could not be undone yet. The moderators have been told and will finish it by hand.'
+          : 'The moderators accepted your appeal. The action taken against you has been undone.')
+      .addFields({ name: 'Notes', value: notes || 'No notes provided' })
+      .setTimestamp()
+      .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+    await user.send({ embeds: [embed] });
+  } catch (error) {
+    logger.warn('Could not send appeal outcome to user', { userId: appeal.userId, error });
+  }
+}
@@ -0,0 +1,32 @@
+import { AuditLogEvent, Guild, PermissionFlagsBits } from 'discord.js';
+import { logger } from '../../utils/logger';
+
+// Gateway events can arrive before or slightly after their audit log entry; older entries belong to other actions.
+const MAX_ENTRY_AGE_MS = 30 * 1000;
+
+export interface AuditLogActor {
+  executorId: string | null;
+  reason: string | null;
+}
+
+export async function findAuditLogActor(
+  guild: Guild,
+  type: AuditLogEvent.MemberBanAdd | AuditLogEvent.MemberBanRemove | AuditLogEvent.MemberUpdate,
+  targetId: string
+): Promise<AuditLogActor | null> {
+  if (!guild.members.me?.permissions.has(PermissionFlagsBits.ViewAuditLog)) {
+    return null;
+  }
+
+  try {
+    const logs = await guild.fetchAuditLogs({ type, limit: 10 });
+    const entry = logs.entries.find(candidate =>
+      candidate.targetId === targetId && Date.now() - candidate.createdTimestamp < MAX_ENTRY_AGE_MS
+    );
+
+    return entry ? { executorId: entry.executorId, reason: entry.reason } : null;
+  } catch (error) {
+    logger.debug('Could not read audit log', { error, guildId: guild.id, type });
+    return null;
+  }
+}
@@ -1,201 +1,230 @@
-import { PrismaClient } from '@prisma/client';
-import { Client, Guild } from 'discord.js';
+import { AuditLogEvent, Client, Guild, GuildBan, RESTJSONErrorCodes } from 'discord.js';
+import { Ban, PrismaClient } from '@prisma/client';
 import { logger, logBan } from '../../utils/logger';
+import { publishBotEvent } from '../../utils/eventBus';
+import { findAuditLogActor } from './auditLog';
 
 const prisma = new PrismaClient();
 
-export interface BanResult {
-  success: boolean;
-  level: number;
-  requiresModeratorReview: boolean;
-  message: string;
+const BAN_EXPIRY_INTERVAL_MS = 60 * 1000;
+
+export type BanType = 'server' | 'global';
+
+export interface BanOptions {
+  banType: BanType;
+  reason: string;
+  moderatorId?: string;
+  detectionId?: string;
+  expiresAt?: Date | null;
 }
 
-export async function handleUserOffense(
-  userId: string,
-  guildId: string,
-  reason: string,
-  client: Client
-): Promise<BanResult> {
-  try {
-    let user = await prisma.user.findUnique({ where: { id: userId } });
-
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          id: userId,
-          username: 'Unknown',
-          discriminator: '0000',
-          offenseCount: 0,
-        },
-      });
-    }
+export interface LiftOptions {
+  reason: string;
+  moderatorId?: string;
+}
+
+export const BAN_SUPERSEDED_REASON = 'Superseded by a new ban';
+
+let expiryTimer: NodeJS.Timeout | null = null;
+
+export async function banFromGuild(guild: Guild, userId: string, options: BanOptions): Promise<Ban> {
+  await ensureUser(userId);
+
+  // A ban placed by hand stays in charge: recording a bot ban over it would let lifting the bot ban undo it.
+  const manualBan = await prisma.ban.findFirst({
+    where: { userId, guildId: guild.id, active: true, issuedByBot: false },
+  });
 
-    user = await prisma.user.update({
-      where: { id: userId },
-      data: { offenseCount: { increment: 1 } },
+  if (manualBan) {
+    logger.info('User is already banned by a moderator, keeping the manual ban', {
+      userId,
+      guildId: guild.id,
+      banType: options.banType,
     });
+    return manualBan;
+  }
 
-    if (user.offenseCount === 1) {
-      return await executeServerBan(userId, guildId, reason, client);
-    } else {
-      return await queueForGlobalBan(userId, guildId, reason);
-    }
+  const superseded = await prisma.ban.findMany({ where: { userId, guildId: guild.id, active: true } });
+  const supersededIds = superseded.map(ban => ban.id);
+
+  // The record is written first so the GuildBanAdd event for this ban finds it and is not logged as a manual ban.
+  await prisma.ban.updateMany({
+    where: { id: { in: supersededIds } },
+    data: { active: false, liftedAt: new Date(), liftReason: BAN_SUPERSEDED_REASON },
+  });
+
+  const ban = await prisma.ban.create({
+    data: {
+      userId,
+      guildId: guild.id,
+      banType: options.banType,
+      reason: options.reason,
+      moderatorId: options.moderatorId ?? null,
+      detectionId: options.detectionId ?? null,
+      expiresAt: options.expiresAt ?? null,
+      issuedByBot: true,
+    },
+  });
+
+  try {
+    await guild.members.ban(userId, { reason: `CSAM Detection: ${options.reason}` });
   } catch (error) {
-    logger.error('Error handling user offense', { error, userId, guildId });
+    await prisma.ban.delete({ where: { id: ban.id } });
+    await prisma.ban.updateMany({
+      where: { id: { in: supersededIds } },
+      data: { active: true, liftedAt: null, liftReason: null },
+    });
     throw error;
   }
+
+  logBan({ userId, guildId: guild.id, banType: options.banType, reason: options.reason });
+
+  publishBotEvent({
+    type: 'ban',
+    guildId: guild.id,
+    userId,
+    data: {
+      banId: ban.id,
+      banType: options.banType,
+      reason: options.reason,
+      expiresAt: ban.expiresAt?.toISOString() ?? null,
+    },
+  });
+
+  return ban;
 }
 
-async function executeServerBan(
-  userId: string,
-  guildId: string,
-  reason: string,
-  client: Client
-): Promise<BanResult> {
-  try {
-    const guild = client.guilds.cache.get(guildId);
-    if (!guild) {
-      logger.error('Guild not found', { guildId });
-      return {
-        success: false,
-        level: 1,
-        requiresModeratorReview: false,
-        message: 'Guild not found',
-      };
-    }
+export async function liftBan(guild: Guild, userId: string, options: LiftOptions): Promise<boolean> {
+  const activeBans = await prisma.ban.findMany({ where: { userId, guildId: guild.id, active: true } });
 
-    await guild.members.ban(userId, { reason: `CSAM Detection: ${reason}` });
-
-    await prisma.ban.create({
-      data: {
-        userId,
-        guildId,
-        level: 1,
-        reason,
-        banType: 'server',
-        active: true,
-      },
-    });
+  if (activeBans.length === 0) {
+    return false;
+  }
 
-    logBan({ userId, guildId, level: 1, reason });
+  const ids = activeBans.map(ban => ban.id);
 
-    logger.info('Server ban executed', { userId, guildId });
+  // Marked lifted before unbanning so the GuildBanRemove event for this unban is a no-op.
+  await prisma.ban.updateMany({
+    where: { id: { in: ids } },
+    data: {
+      active: false,
+      liftedAt: new Date(),
+      liftedBy: options.moderatorId ?? null,
+      liftReason: options.reason,
+    },
+  });
 
-    return {
-      success: true,
-      level: 1,
-      requiresModeratorReview: false,
-      message: 'User banned from server (first offense)',
-    };
+  try {
+    await guild.members.unban(userId, options.reason);
   } catch (error: any) {
-    logger.error('Error executing server ban', { error: error.message, userId, guildId });
-    return {
-      success: false,
-      level: 1,
-      requiresModeratorReview: false,
-      message: `Ban failed: ${error.message}`,
-    };
+    if (error.code !== RESTJSONErrorCodes.UnknownBan) {
+      await prisma.ban.updateMany({
+        where: { id: { in: ids } },
+        data: { active: true, liftedAt: null, liftedBy: null, liftReason: null },
+      });
+      throw error;
+    }
   }
+
+  logger.info('Ban lifted', { userId, guildId: guild.id, reason: options.reason });
+
+  publishBotEvent({
+    type: 'unban',
+    guildId: guild.id,
+    userId,
+    data: { banIds: ids, reason: options.reason, moderatorId: options.moderatorId ?? null },
+  });
+
+  return true;
 }
 
-async function queueForGlobalBan(
-  userId: string,
-  guildId: string,
-  reason: string
-): Promise<BanResult> {
-  try {
-    await prisma.ban.create({
-      data: {
-        userId,
-        guildId,
-        level: 2,
-        reason,
-        banType: 'global_pending',
-        active: false,
-      },
-    });
+// Older versions let a bot ban supersede a ban placed by hand. Walks back through the bans this one replaced
+// and returns the manual ban at the end of the chain, if any; a ban that was lifted rather than replaced ends it.
+export async function findReplacedManualBan(ban: Ban): Promise<Ban | null> {
+  const history = await prisma.ban.findMany({
+    where: { userId: ban.userId, guildId: ban.guildId, id: { not: ban.id }, createdAt: { lte: ban.createdAt } },
+    orderBy: { createdAt: 'desc' },
+  });
 
-    logger.warn('User queued for global ban review', { userId, guildId });
+  for (const previous of history) {
+    if (previous.liftReason !== BAN_SUPERSEDED_REASON) {
+      return null;
+    }
 
-    return {
-      success: true,
-      level: 2,
-      requiresModeratorReview: true,
-      message: 'User queued for global ban (requires moderator approval)',
-    };
-  } catch (error) {
-    logger.error('Error queueing for global ban', { error, userId, guildId });
-    throw error;
+    if (!previous.issuedByBot) {
+      return previous;
+    }
   }
+
+  return null;
 }
 
-export async function approveGlobalBan(banId: string, moderatorId: string, client: Client): Promise<boolean> {
-  try {
-    const ban = await prisma.ban.findUnique({
-      where: { id: banId },
-      include: { user: true },
-    });
+export async function handleGuildBanAdd(ban: GuildBan): Promise<void> {
+  const existing = await prisma.ban.findFirst({
+    where: { userId: ban.user.id, guildId: ban.guild.id, active: true },
+  });
 
-    if (!ban || ban.banType !== 'global_pending') {
-      logger.error('Invalid ban for approval', { banId });
-      return false;
-    }
+  if (existing) {
+    return;
+  }
 
-    await prisma.ban.update({
-      where: { id: banId },
-      data: {
-        banType: 'global',
-        active: true,
-      },
-    });
+  const actor = await findAuditLogActor(ban.guild, AuditLogEvent.MemberBanAdd, ban.user.id);
+  await ensureUser(ban.user.id, ban.user.username);
 
-    await prisma.user.update({
-      where: { id: ban.userId },
-      data: { globallyBanned: true },
-    });
+  const record = await prisma.ban.create({
+    data: {
+      userId: ban.user.id,
+      guildId: ban.guild.id,
+      banType: 'server',
+      reason: ban.reason ?? actor?.reason ?? null,
+      moderatorId: actor?.executorId ?? null,
+      issuedByBot: false,
+    },
+  });
 
-    const guilds = client.guilds.cache.values();
-    let bannedCount = 0;
+  logger.info('Recorded manual ban', { userId: ban.user.id, guildId: ban.guild.id, moderatorId: record.moderatorId });
 
-    for (const guild of guilds) {
-      try {
-        await guild.members.ban(ban.userId, { reason: 'Global CSAM ban (approved by moderator)' });
-        bannedCount++;
-      } catch (error) {
-        logger.error('Failed to ban user in guild', { guildId: guild.id, userId: ban.userId });
-      }
-    }
+  publishBotEvent({
+    type: 'ban',
+    guildId: ban.guild.id,
+    userId: ban.user.id,
+    data: { banId: record.id, banType: 'server', reason: record.reason, manual: true },
+  });
+}
 
-    logger.info('Global ban approved and executed', {
-      userId: ban.userId,
-      moderatorId,
-      guildsAffected: bannedCount,
-    });
+export async function handleGuildBanRemove(ban: GuildBan): Promise<void> {
+  const activeBans = await prisma.ban.findMany({
+    where: { userId: ban.user.id, guildId: ban.guild.id, active: true },
+  });
 
-    return true;
-  } catch (error) {
-    logger.error('Error approving global ban', { error, banId });
-    return false;
+  if (activeBans.length === 0) {
+    return;
   }
-}
 
-export async function rejectGlobalBan(banId: string, moderatorId: string, notes: string): Promise<boolean> {
-  try {
-    await prisma.ban.update({
-      where: { id: banId },
-      data: {
-        banType: 'global_rejected',
-        active: false,
-      },
-    });
+  const actor = await findAuditLogActor(ban.guild, AuditLogEvent.MemberBanRemove, ban.user.id);
 
-    logger.info('Global ban rejected', { banId, moderatorId, notes });
-    return true;
-  } catch (error) {
-    logger.error('Error rejecting global ban', { error, banId });
-    return false;
+  await prisma.ban.updateMany({
+    where: { id: { in: activeBans.map(activeBan => activeBan.id) } },
+    data: {
+      active: false,
+      liftedAt: new Date(),
+      liftedBy: actor?.executorId ?? null,
+      liftReason: actor?.reason ?? 'Unbanned in Discord',
+    },
+  });
+
+  if (activeBans.some(activeBan => activeBan.banType === 'global')) {
+    logger.warn('Globally banned user was unbanned manually', { userId: ban.user.id, guildId: ban.guild.id });
+  } else {
+    logger.info('Recorded manual unban', { userId: ban.user.id, guildId: ban.guild.id });
   }
+
+  publishBotEvent({
+    type: 'unban',
+    guildId: ban.guild.id,
+    userId: ban.user.id,
+    data: { banIds: activeBans.map(activeBan => activeBan.id), moderatorId: actor?.executorId ?? null, manual: true },
+  });
 }
 
 export async function checkAndEnforceGlobalBan(userId: string, guild: Guild): Promise<boolean> {
@@ -203,7 +232,7 @@ export async function checkAndEnforceGlobalBan(userId: string, guild: Guild): Pr
     const user = await prisma.user.findUnique({ where: { id: userId } });
 
     if (user && user.globallyBanned) {
-      await guild.members.ban(userId, { reason: 'Globally banned user detected' });
+      await banFromGuild(guild, userId, { banType: 'global', reason: 'Globally banned user detected' });
       logger.info('Enforced global ban on join', { userId, guildId: guild.id });
       return true;
     }
@@ -214,3 +243,52 @@ export async function checkAndEnforceGlobalBan(userId: string, guild: Guild): Pr
     return false;
   }
 }
+
+export function startBanExpiry(client: Client): void {
+  expiryTimer = setInterval(() => void expireBans(client), BAN_EXPIRY_INTERVAL_MS);
+  void expireBans(client);
+}
+
+export function stopBanExpiry(): void {
+  if (expiryTimer) {
+    clearInterval(expiryTimer);
+    expiryTimer = null;
+  }
+}
+
+async function expireBans(client: Client): Promise<void> {
+  try {
+    const expired = await prisma.ban.findMany({
+      where: { active: true, expiresAt: { lte: new Date() } },
+      take: 50,
+    });
+
+    for (const ban of expired) {
+      const guild = client.guilds.cache.get(ban.guildId);
+
+      if (!guild) {
+        await prisma.ban.update({
+          where: { id: ban.id },
+          data: { active: false, liftedAt: new Date(), liftReason: 'Ban expired (bot no longer in server)' },
+        });
+        continue;
+      }
+
+      try {
+        await liftBan(guild, ban.userId, { reason: 'Ban expired' });
+      } catch (error) {
+        logger.error('Error lifting expired ban', { error, banId: ban.id, guildId: ban.guildId });
+      }
+    }
+  } catch (error) {
+    logger.error('Error expiring bans', { error });
+  }
+}
+
+async function ensureUser(userId: string, username = 'Unknown'): Promise<void> {
+  await prisma.user.upsert({
+    where: { id: userId },
+    update: {},
+    create: { id: userId, username, discriminator: '0000' },
+  });
+}
@@ -0,0 +1,226 @@
+import { readFileSync } from 'fs';
+import { Detection, PrismaClient } from '@prisma/client';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { DetectionResult } from '../../detection/detectionPipeline';
+import { isSeverity, Severity } from '../../detection/hashLists';
+
+const prisma = new PrismaClient();
+
+export const ESCALATION_ACTIONS = ['timeout', 'ban', 'global_review', 'none'] as const;
+
+export type EscalationAction = typeof ESCALATION_ACTIONS[number];
+
+export interface EscalationStep {
+  name?: string;
+  minOffenses: number;
+  maxOffenses?: number;
+  severities?: Severity[];
+  // Detection methods: hash_match, a provider name, or "classifier" for any provider
+  methods?: string[];
+  action: EscalationAction;
+  // Required for timeouts; optional for bans, which are permanent without it
+  durationHours?: number;
+}
+
+export interface EscalationPolicy {
+  // Classifier confidence needed for a hit to count as high or medium severity; anything lower is low
+  classifierSeverity: { high: number; medium: number };
+  steps: EscalationStep[];
+}
+
+export interface OffenseContext {
+  method: string;
+  severity: Severity;
+}
+
+export interface EscalationDecision {
+  offenseCount: number;
+  step: EscalationStep | null;
+  stepIndex: number;
+}
+
+const DEFAULT_POLICY: EscalationPolicy = {
+  classifierSeverity: { high: 0.97, medium: 0.85 },
+  steps: [
+    { minOffenses: 2, action: 'global_review' },
+    { minOffenses: 1, action: 'timeout', durationHours: 168 },
+  ],
+};
+
+let policy: EscalationPolicy | null = null;
+
+export function loadEscalationPolicy(): EscalationPolicy {
+  if (policy) {
+    return policy;
+  }
+
+  let source = DEFAULT_POLICY;
+
+  if (config.escalation.policyFile) {
+    const parsed = JSON.parse(readFileSync(config.escalation.policyFile, 'utf8'));
+    source = {
+      classifierSeverity: { ...DEFAULT_POLICY.classifierSeverity, ...parsed.classifierSeverity },
+      steps: Array.isArray(parsed.steps) ? parsed.steps : [],
+    };
+  }
+
+  const error = validateEscalationPolicy(source);
+  if (error) {
+    throw new Error(`Invalid escalation policy: ${error}`);
+  }
+
+  if (config.escalation.policyFile) {
+    logger.info('Loaded escalation policy', { file: config.escalation.policyFile, steps: source.steps.length });
+  }
+
+  policy = source;
+  return policy;
+}
+
+export function getDetectionSeverity(detection: DetectionResult): Severity {
+  return severityFor(detection.method, detection.confidence, detection.details.hashMatch?.severity);
+}
+
+// Same as getDetectionSeverity, for a detection read back from the database.
+export function getStoredDetectionSeverity(detection: Detection): Severity {
+  let hashSeverity: unknown;
+
+  try {
+    hashSeverity = detection.metadata ? JSON.parse(detection.metadata).hashMatch?.severity : undefined;
+  } catch {
+    hashSeverity = undefined;
+  }
+
+  return severityFor(detection.detectionMethod, detection.confidenceScore, hashSeverity);
+}
+
+function severityFor(method: string, confidence: number, hashSeverity: unknown): Severity {
+  if (method === 'hash_match') {
+    return isSeverity(hashSeverity) ? hashSeverity : 'high';
+  }
+
+  const { high, medium } = loadEscalationPolicy().classifierSeverity;
+
+  if (confidence >= high) return 'high';
+  if (confidence >= medium) return 'medium';
+  return 'low';
+}
+
+export async function countRecentOffenses(userId: string): Promise<number> {
+  return prisma.offense.count({
+    where: { userId, revoked: false, createdAt: { gte: getWindowStart() } },
+  });
+}
+
+// Which step the offense lands on, given the number of offenses in the window including this one.
+export function selectEscalationStep(offenseCount: number, offense: OffenseContext): EscalationDecision {
+  const steps = loadEscalationPolicy().steps;
+  const stepIndex = steps.findIndex(step => stepMatches(step, offenseCount, offense));
+
+  return {
+    offenseCount,
+    step: stepIndex >= 0 ? steps[stepIndex] : null,
+    stepIndex,
+  };
+}
+
+export async function previewEscalation(userId: string, offense: OffenseContext): Promise<EscalationDecision> {
+  return selectEscalationStep(await countRecentOffenses(userId) + 1, offense);
+}
+
+export function describeEscalationStep(step: EscalationStep | null): string {
+  if (!step) {
+    return 'No matching step (no action)';
+  }
+
+  const label = {
+    timeout: `Timeout for ${formatHours(step.durationHours ?? 0)}`,
+    ban: step.durationHours ? `Ban from the server for ${formatHours(step.durationHours)}` : 'Ban from the server',
+    global_review: 'Global ban review',
+    none: 'No action',
+  }[step.action];
+
+  return step.name ? `${step.name} - ${label}` : label;
+}
+
+export function describeStepConditions(step: EscalationStep): string {
+  const offenses = step.maxOffenses !== undefined
+    ? `${step.minOffenses}-${step.maxOffenses} offenses`
+    : `${step.minOffenses}+ offenses`;
+
+  return [
+    offenses,
+    step.severities ? `severity ${step.severities.join('/')}` : null,
+    step.methods ? `method ${step.methods.join('/')}` : null,
+  ].filter(Boolean).join(', ');
+}
+
+function stepMatches(step: EscalationStep, offenseCount: number, offense: OffenseContext): boolean {
+  if (offenseCount < step.minOffenses) return false;
+  if (step.maxOffenses !== undefined && offenseCount > step.maxOffenses) return false;
+  if (step.severities && !step.severities.includes(offense.severity)) return false;
+
+  if (step.methods) {
+    const isClassifier = offense.method !== 'hash_match';
+    return step.methods.includes(offense.method) || (isClassifier && step.methods.includes('classifier'));
+  }
+
+  return true;
+}
+
+function validateEscalationPolicy(source: EscalationPolicy): string | null {
+  const { high, medium } = source.classifierSeverity;
+  if (typeof high !== 'number' || typeof medium !== 'number' || medium < 0 || high > 1 || medium > high) {
+    return 'classifierSeverity needs medium <= high, both between 0 and 1';
+  }
+
+  for (const [index, step] of source.steps.entries()) {
+    const position = `step ${index + 1}`;
+
+    if (!Number.isInteger(step.minOffenses) || step.minOffenses < 1) {
+      return `${position}: minOffenses must be a whole number of at least 1`;
+    }
+
+    if (step.maxOffenses !== undefined && (!Number.isInteger(step.maxOffenses) || step.maxOffenses < step.minOffenses)) {
+      return `${position}: maxOffenses must be a whole number not below minOffenses`;
+    }
+
+    if (!(ESCALATION_ACTIONS as readonly string[]).includes(step.action)) {
+      return `${position}: action must be one of ${ESCALATION_ACTIONS.join(', ')}`;
+    }
+
+    if (step.action === 'timeout' && (typeof step.durationHours !== 'number' || step.durationHours <= 0)) {
+      return `${position}: timeout steps need a positive durationHours`;
+    }
+
+    if (step.action === 'ban' && step.durationHours !== undefined
+      && (typeof step.durationHours !== 'number' || step.durationHours <= 0)) {
+      return `${position}: durationHours for a ban must be a positive number of hours`;
+    }
+
+    if (step.severities !== undefined && (!Array.isArray(step.severities) || !step.severities.every(isSeverity))) {
+      return `${position}: severities must be a list of low, medium or high`;
+    }
+
+    if (step.methods !== undefined && (!Array.isArray(step.methods) || !step.methods.every(m => typeof m === 'string'))) {
+      return `${position}: methods must be a list of detection methods`;
+    }
+  }
+
+  return null;
+}
+
+function getWindowStart(): Date {
+  const windowDays = config.escalation.offenseWindowDays;
+  return windowDays > 0 ? new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000) : new Date(0);
+}
+
+function formatHours(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return days === 7 ? '1 week' : `${days} day${days === 1 ? '' : 's'}`;
+  }
+
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,85 @@
+import { Message, StickerFormatType } from 'discord.js';
+
+const IMAGE_SOURCE_TYPES = ['attachment', 'embed', 'link', 'sticker'] as const;
+
+export type ImageSourceType = typeof IMAGE_SOURCE_TYPES[number];
+
+export interface ImageSource {
+  url: string;
+  sourceType: ImageSourceType;
+}
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export function isImageSourceType(value: unknown): value is ImageSourceType {
+  return typeof value === 'string' && (IMAGE_SOURCE_TYPES as readonly string[]).includes(value);
+}
+
+const IMAGE_LINK_PATTERN = /https?:\/\/[^\s<>"')]+\.(?:jpe?g|png|gif|webp)(?:\?[^\s<>"')]*)?/gi;
+
+type ImageSourceContent = Pick<Message, 'attachments' | 'content' | 'embeds' | 'stickers'>;
+
+export function extractImageSources(message: Message): ImageSource[] {
+  const sources: ImageSource[] = [];
+  const seen = new Set<string>();
+
+  const add = (url: string | null | undefined, sourceType: ImageSourceType, aliases: (string | null | undefined)[] = []) => {
+    if (!url || [url, ...aliases].some(candidate => candidate && seen.has(candidate))) {
+      return;
+    }
+
+    [url, ...aliases].forEach(candidate => candidate && seen.add(candidate));
+    sources.push({ url, sourceType });
+  };
+
+  // Forwarded messages carry the original content as snapshots instead of on the message itself.
+  for (const content of [message, ...message.messageSnapshots.values()]) {
+    collectImageSources(content, add);
+  }
+
+  return sources;
+}
+
+function collectImageSources(
+  message: ImageSourceContent,
+  add: (url: string | null | undefined, sourceType: ImageSourceType, aliases?: (string | null | undefined)[]) => void
+): void {
+  for (const attachment of message.attachments.values()) {
+    if (SUPPORTED_IMAGE_TYPES.some(type => attachment.contentType?.startsWith(type))) {
+      add(attachment.url, 'attachment', [attachment.proxyURL]);
+    }
+  }
+
+  // Discord fetches linked and embedded images through its media proxy, so only proxy URLs are downloaded.
+  // A link is scanned once Discord has added its embed, which arrives as a message update.
+  const proxyURLs = new Map<string, string>();
+  for (const embed of message.embeds) {
+    for (const image of [embed.image, embed.thumbnail]) {
+      if (image?.proxyURL) {
+        proxyURLs.set(image.url, image.proxyURL);
+        if (embed.url) proxyURLs.set(embed.url, image.proxyURL);
+      }
+    }
+  }
+
+  for (const match of message.content.matchAll(IMAGE_LINK_PATTERN)) {
+    const proxyURL = proxyURLs.get(match[0]);
+    if (proxyURL) {
+      add(proxyURL, 'link', [match[0]]);
+    }
+  }
+
+  for (const embed of message.embeds) {
+    for (const image of [embed.image, embed.thumbnail]) {
+      if (image?.proxyURL) {
+        add(image.proxyURL, 'embed', [image.url]);
+      }
+    }
+  }
+
+  for (const sticker of message.stickers.values()) {
+    if (sticker.format !== StickerFormatType.Lottie) {
+      add(sticker.url, 'sticker');
+    }
+  }
+}
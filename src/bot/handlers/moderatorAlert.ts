@@ -1,13 +1,19 @@
-import { EmbedBuilder, TextChannel, Guild, User } from 'discord.js';
-import { PrismaClient } from '@prisma/client';
+import { EmbedBuilder, TextChannel, Guild, User, Client } from 'discord.js';
+import { PrismaClient, ScanJob } from '@prisma/client';
 import { logger } from '../../utils/logger';
 import { DetectionResult } from '../../detection/detectionPipeline';
+import { QuotaWarning } from '../../detection/providerQuota';
+import { config } from '../../config/config';
+import { formatRoleMentions } from './permissions';
+import { buildReviewButtons } from '../components/reviewButtons';
+import { buildAppealButton } from '../components/appealButtons';
 
 const prisma = new PrismaClient();
 
 export async function alertModerators(
   guild: Guild,
-  user: User,
+  userId: string,
+  user: User | null,
   detection: DetectionResult,
   actionTaken: string
 ): Promise<void> {
@@ -31,7 +37,7 @@ export async function alertModerators(
       .setColor(detection.flagged ? 0xFF0000 : 0xFFA500)
       .setTimestamp()
       .addFields(
-        { name: 'User', value: `${user.tag} (${user.id})`, inline: true },
+        { name: 'User', value: user ? `${user.tag} (${user.id})` : `<@${userId}> (${userId})`, inline: true },
         { name: 'Detection Method', value: detection.method, inline: true },
         { name: 'Confidence', value: `${(detection.confidence * 100).toFixed(2)}%`, inline: true },
         { name: 'Action Taken', value: actionTaken, inline: true },
@@ -40,14 +46,29 @@ export async function alertModerators(
       )
       .setFooter({ text: 'No CSAM Bot by vypnito' });
 
+    if (detection.details.hashMatch?.matched) {
+      embed.addFields({
+        name: 'Hash Algorithm',
+        value: `${detection.details.hashMatch.algorithm} (distance ${detection.details.hashMatch.distance})`,
+        inline: true,
+      });
+
+      if (detection.details.hashMatch.frameIndex !== undefined) {
+        embed.addFields({
+          name: 'Frame',
+          value: `${detection.details.hashMatch.frameIndex + 1} of ${detection.details.hashMatch.frameCount}`,
+          inline: true,
+        });
+      }
+    }
+
     if (detection.requiresReview) {
       embed.setDescription('This detection requires moderator review. Check the dashboard for details.');
     }
 
     await alertChannel.send({ embeds: [embed] });
 
-    const moderatorRoleIds = guildConfig.moderatorRoleIds.split(',');
-    const mentions = moderatorRoleIds.map(id => `<@&${id}>`).join(' ');
+    const mentions = formatRoleMentions(guildConfig.moderatorRoleIds);
 
     if (detection.flagged && !detection.requiresReview) {
       await alertChannel.send(`${mentions} Immediate action taken on detected content.`);
@@ -55,13 +76,13 @@ export async function alertModerators(
       await alertChannel.send(`${mentions} Content flagged for review - please check the dashboard.`);
     }
 
-    logger.info('Moderator alert sent', { guildId: guild.id, userId: user.id });
+    logger.info('Moderator alert sent', { guildId: guild.id, userId });
   } catch (error) {
     logger.error('Error sending moderator alert', { error, guildId: guild.id });
   }
 }
 
-export async function sendDMAlert(user: User, reason: string): Promise<void> {
+export async function sendDMAlert(user: User, reason: string, detectionId: string): Promise<void> {
   try {
     const embed = new EmbedBuilder()
       .setTitle('Content Violation Notice')
@@ -73,13 +94,13 @@ export async function sendDMAlert(user: User, reason: string): Promise<void> {
         { name: 'Reason', value: reason },
         {
           name: 'Appeal',
-          value: 'If you believe this was a mistake, please contact the server moderators.',
+          value: 'If you believe this was a mistake, use the Appeal button below to explain why. You will get a message here once the moderators have decided.',
         }
       )
       .setTimestamp()
       .setFooter({ text: 'No CSAM Bot by vypnito' });
 
-    await user.send({ embeds: [embed] });
+    await user.send({ embeds: [embed], components: [buildAppealButton(detectionId)] });
     logger.info('DM alert sent to user', { userId: user.id });
   } catch (error) {
     logger.warn('Could not send DM to user', { userId: user.id, error });
@@ -111,18 +132,107 @@ export async function notifyModeratorOfPendingReview(
       .addFields(
         { name: 'Detection ID', value: detectionId, inline: true },
         { name: 'User ID', value: userId, inline: true },
-        { name: 'Action', value: 'Please review this detection in the dashboard', inline: false }
+        { name: 'Action', value: 'Review this detection with the buttons below or in the dashboard', inline: false }
       )
       .setTimestamp()
       .setFooter({ text: 'No CSAM Bot by vypnito' });
 
-    const moderatorRoleIds = guildConfig.moderatorRoleIds.split(',');
-    const mentions = moderatorRoleIds.map(id => `<@&${id}>`).join(' ');
+    const mentions = formatRoleMentions(guildConfig.moderatorRoleIds);
 
-    await alertChannel.send({ content: mentions, embeds: [embed] });
+    await alertChannel.send({
+      content: mentions,
+      embeds: [embed],
+      components: [buildReviewButtons(detectionId)],
+    });
 
     logger.info('Pending review notification sent', { guildId: guild.id, detectionId });
   } catch (error) {
     logger.error('Error sending pending review notification', { error, guildId: guild.id });
   }
 }
+
+export async function alertScanDeadLetter(client: Client, job: ScanJob): Promise<void> {
+  try {
+    const botConfig = await prisma.botConfig.findUnique({ where: { id: 'main' } });
+
+    if (!botConfig || !botConfig.moderationServerId || !botConfig.moderationChannelId) {
+      logger.warn('Moderation server not configured, dead letter alert not sent', { jobId: job.id });
+      return;
+    }
+
+    const modChannel = client.guilds.cache
+      .get(botConfig.moderationServerId)
+      ?.channels.cache.get(botConfig.moderationChannelId);
+
+    if (!modChannel || !modChannel.isTextBased()) {
+      logger.error('Moderation channel not found', { channelId: botConfig.moderationChannelId });
+      return;
+    }
+
+    const payload = job.payload ? JSON.parse(job.payload) : {};
+
+    const embed = new EmbedBuilder()
+      .setTitle('Scan Failed Repeatedly')
+      .setColor(0x808080)
+      .setDescription('An image could not be scanned and was moved to the dead letter queue. Retry it from the dashboard.')
+      .addFields(
+        { name: 'Job ID', value: job.id, inline: true },
+        { name: 'Attempts', value: String(job.attempts), inline: true },
+        { name: 'Server', value: payload.guildId ?? 'Unknown', inline: true },
+        { name: 'Message', value: payload.messageId ?? 'Unknown', inline: true },
+        { name: 'Last Error', value: (job.lastError ?? 'Unknown').slice(0, 1024), inline: false }
+      )
+      .setTimestamp()
+      .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+    await modChannel.send({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error sending dead letter alert', { error, jobId: job.id });
+  }
+}
+
+const QUOTA_POLICY_DESCRIPTIONS: Record<string, string> = {
+  switch: 'The provider is skipped and the next provider is used until the budget resets.',
+  sample: 'Only a sample of images is sent to the provider until the budget resets.',
+  'hash-only': 'Images are checked against the hash database only until the budget resets.',
+};
+
+export async function alertQuotaWarning(client: Client, warning: QuotaWarning): Promise<void> {
+  try {
+    const botConfig = await prisma.botConfig.findUnique({ where: { id: 'main' } });
+
+    if (!botConfig || !botConfig.moderationServerId || !botConfig.moderationChannelId) {
+      logger.warn('Moderation server not configured, quota warning not sent', { provider: warning.provider });
+      return;
+    }
+
+    const modChannel = client.guilds.cache
+      .get(botConfig.moderationServerId)
+      ?.channels.cache.get(botConfig.moderationChannelId);
+
+    if (!modChannel || !modChannel.isTextBased()) {
+      logger.error('Moderation channel not found', { channelId: botConfig.moderationChannelId });
+      return;
+    }
+
+    const periodLabel = warning.period === 'day' ? 'daily' : 'monthly';
+
+    const embed = new EmbedBuilder()
+      .setTitle(warning.exhausted ? 'Provider Budget Exhausted' : 'Provider Budget Warning')
+      .setColor(warning.exhausted ? 0xFF0000 : 0xFFA500)
+      .setDescription(warning.exhausted
+        ? `The ${periodLabel} budget for **${warning.provider}** has run out. ${QUOTA_POLICY_DESCRIPTIONS[config.quota.exhaustedPolicy]}`
+        : `**${warning.provider}** has used ${Math.floor(warning.percent)}% of its ${periodLabel} budget.`)
+      .addFields(
+        { name: 'Provider', value: warning.provider, inline: true },
+        { name: 'Calls', value: `${warning.calls.toLocaleString()} / ${warning.budget.toLocaleString()}`, inline: true },
+        { name: 'Policy', value: config.quota.exhaustedPolicy, inline: true }
+      )
+      .setTimestamp()
+      .setFooter({ text: 'No CSAM Bot by vypnito' });
+
+    await modChannel.send({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error sending quota warning', { error, provider: warning.provider });
+  }
+}
@@ -0,0 +1,47 @@
+import { Client, GuildMember, PermissionFlagsBits } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export function parseRoleIds(moderatorRoleIds: string): string[] {
+  return moderatorRoleIds
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+}
+
+export function formatRoleMentions(moderatorRoleIds: string): string {
+  return parseRoleIds(moderatorRoleIds).map(id => `<@&${id}>`).join(' ');
+}
+
+export function isGuildModerator(member: GuildMember, moderatorRoleIds: string): boolean {
+  if (member.guild.ownerId === member.id) {
+    return true;
+  }
+
+  if (member.permissions.has(PermissionFlagsBits.ManageGuild)) {
+    return true;
+  }
+
+  return parseRoleIds(moderatorRoleIds).some(roleId => member.roles.cache.has(roleId));
+}
+
+export async function isNetworkModerator(client: Client, userId: string): Promise<boolean> {
+  const botConfig = await prisma.botConfig.findUnique({ where: { id: 'main' } });
+
+  if (!botConfig?.moderationServerId) {
+    return false;
+  }
+
+  const modGuild = client.guilds.cache.get(botConfig.moderationServerId);
+  if (!modGuild) {
+    return false;
+  }
+
+  try {
+    await modGuild.members.fetch(userId);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client';
+import { Client } from 'discord.js';
+import { logger } from '../../utils/logger';
+import { approveGlobalBan, GLOBAL_BAN_REVIEW_LEVEL, rejectGlobalBan } from './timeoutManager';
+import { addConfirmedHashes } from '../../detection/hashMatcher';
+import { invalidateVerdict } from '../../detection/verdictCache';
+
+const prisma = new PrismaClient();
+
+export type ReviewDecision = 'approved' | 'rejected' | 'false_positive';
+
+export interface ReviewerIdentity {
+  id: string;
+  username: string;
+}
+
+export interface ReviewResolution {
+  success: boolean;
+  message: string;
+}
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  approved: 'Global ban approved',
+  rejected: 'Rejected',
+  false_positive: 'False positive',
+};
+
+export function isReviewDecision(value: unknown): value is ReviewDecision {
+  return typeof value === 'string' && Object.keys(REVIEW_DECISION_LABELS).includes(value);
+}
+
+export function requiresNetworkModerator(level: number, decision: ReviewDecision): boolean {
+  return decision === 'approved' || level === GLOBAL_BAN_REVIEW_LEVEL;
+}
+
+export async function resolveReview(
+  detectionId: string,
+  reviewer: ReviewerIdentity,
+  decision: ReviewDecision,
+  notes: string,
+  client: Client
+): Promise<ReviewResolution> {
+  try {
+    await prisma.user.upsert({
+      where: { id: reviewer.id },
+      update: { username: reviewer.username },
+      create: {
+        id: reviewer.id,
+        username: reviewer.username,
+        discriminator: '0',
+      },
+    });
+
+    // Claiming the review and recording the decision in one step keeps two moderators from both deciding it.
+    const { count } = await prisma.moderatorReview.updateMany({
+      where: { detectionId, status: 'pending' },
+      data: {
+        reviewerId: reviewer.id,
+        status: 'reviewed',
+        decision,
+        notes: notes || null,
+        reviewedAt: new Date(),
+      },
+    });
+
+    const review = await prisma.moderatorReview.findUnique({
+      where: { detectionId },
+      include: { detection: true },
+    });
+
+    if (!review) {
+      return { success: false, message: 'Review not found' };
+    }
+
+    if (count === 0) {
+      return { success: false, message: `This review was already resolved (${review.decision ?? review.status})` };
+    }
+
+    const userId = review.detection.userId;
+    let succeeded = true;
+
+    if (decision === 'approved') {
+      succeeded = await approveGlobalBan(userId, reviewer.id, client);
+    } else if (review.level === GLOBAL_BAN_REVIEW_LEVEL) {
+      succeeded = await rejectGlobalBan(userId, reviewer.id, notes, client);
+    }
+
+    if (!succeeded) {
+      await prisma.moderatorReview.update({
+        where: { id: review.id },
+        data: { reviewerId: null, status: 'pending', decision: null, notes: null, reviewedAt: null },
+      });
+      return { success: false, message: 'Failed to apply the decision, check the bot logs' };
+    }
+
+    if (decision === 'approved') {
+      await recordConfirmedHashes(review.detection.metadata, review.detection.imageHash);
+    }
+
+    if (decision === 'false_positive') {
+      await markFalsePositive(review.detection.id);
+    }
+
+    logger.info('Moderator review resolved', { detectionId, reviewerId: reviewer.id, decision, level: review.level });
+
+    return { success: true, message: REVIEW_DECISION_LABELS[decision] };
+  } catch (error) {
+    logger.error('Error resolving moderator review', { error, detectionId });
+    return { success: false, message: 'Failed to resolve review' };
+  }
+}
+
+async function markFalsePositive(detectionId: string): Promise<void> {
+  const detection = await prisma.detection.update({
+    where: { id: detectionId },
+    data: { flagged: false, actionTaken: 'false_positive' },
+  });
+
+  if (detection.contentHash) {
+    invalidateVerdict(detection.contentHash);
+  }
+
+  await prisma.offense.updateMany({
+    where: { detectionId },
+    data: { revoked: true },
+  });
+}
+
+async function recordConfirmedHashes(metadata: string | null, imageHash: string): Promise<void> {
+  let hashes: Record<string, string> = { perceptual: imageHash };
+
+  try {
+    const details = metadata ? JSON.parse(metadata) : null;
+    if (details?.hashMatch?.hashes) {
+      hashes = details.hashMatch.hashes;
+    }
+  } catch {
+    logger.warn('Could not parse detection metadata for confirmed hashes');
+  }
+
+  const added = await addConfirmedHashes(hashes);
+  logger.info('Recorded moderator-confirmed hashes', { added });
+}
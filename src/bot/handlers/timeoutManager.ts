@@ -1,47 +1,115 @@
 import { PrismaClient } from '@prisma/client';
-import { Client, Guild } from 'discord.js';
+import { Client, Guild, RESTJSONErrorCodes } from 'discord.js';
 import { logger } from '../../utils/logger';
+import { publishBotEvent } from '../../utils/eventBus';
+import { buildReviewButtons } from '../components/reviewButtons';
+import { banFromGuild, findReplacedManualBan, liftBan, LiftOptions } from './banManager';
+import { MAX_TIMEOUT_CHUNK_MS } from './timeoutScheduler';
+import { Severity } from '../../detection/hashLists';
+import {
+  countRecentOffenses,
+  describeEscalationStep,
+  EscalationAction,
+  selectEscalationStep,
+} from './escalation';
 
 const prisma = new PrismaClient();
 
 const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
+// Reviews of users queued for a global ban. Level 1 reviews are detections that were not confident enough to flag.
+export const GLOBAL_BAN_REVIEW_LEVEL = 2;
+
+const UNRECORDED_GLOBAL_BAN_REASONS = ['Global CSAM ban approved by moderator', 'Globally banned user detected'];
+
+const MODERATION_ACTION_LABELS: Record<string, string> = {
+  timeout: '⏱️ Timeout',
+  ban: '🔨 Server Ban',
+  pending_review: '⚠️ Pending Review',
+};
+
 export interface TimeoutResult {
   success: boolean;
   level: number;
+  action: EscalationAction;
   requiresModeratorReview: boolean;
   message: string;
 }
 
+export type GuildUnbanStatus = 'unbanned' | 'kept_manual_ban' | 'failed' | 'unavailable';
+
+export interface GuildUnbanResult {
+  guildId: string;
+  guildName: string | null;
+  status: GuildUnbanStatus;
+  error?: string;
+}
+
+export interface GlobalBanRevocationResult {
+  success: boolean;
+  message: string;
+  results: GuildUnbanResult[];
+}
+
+export interface OffenseInput {
+  detectionId?: string;
+  method: string;
+  severity: Severity;
+}
+
 export async function handleUserOffense(
   userId: string,
   guildId: string,
   reason: string,
-  client: Client
+  client: Client,
+  offense: OffenseInput,
+  serverAction: 'timeout' | 'ban' = 'timeout'
 ): Promise<TimeoutResult> {
   try {
-    let user = await prisma.user.findUnique({ where: { id: userId } });
+    const user = await prisma.user.findUnique({ where: { id: userId } });
 
     if (!user) {
-      user = await prisma.user.create({
+      await prisma.user.create({
         data: {
           id: userId,
           username: 'Unknown',
           discriminator: '0000',
-          offenseCount: 0,
         },
       });
     }
 
-    user = await prisma.user.update({
-      where: { id: userId },
-      data: { offenseCount: { increment: 1 } },
+    await prisma.offense.create({
+      data: {
+        userId,
+        guildId,
+        detectionId: offense.detectionId ?? null,
+        method: offense.method,
+        severity: offense.severity,
+      },
     });
 
-    if (user.offenseCount === 1) {
-      return await executeServerTimeout(userId, guildId, reason, client);
-    } else {
-      return await queueForReview(userId, guildId, reason);
+    const { offenseCount: level, step } = selectEscalationStep(await countRecentOffenses(userId), offense);
+
+    logger.info('Escalation step selected', { userId, guildId, level, step: describeEscalationStep(step) });
+
+    switch (step?.action) {
+      case 'timeout':
+        // Servers with the delete and ban policy ban where the ladder would time out.
+        return serverAction === 'ban'
+          ? await executeServerBan(userId, guildId, reason, client, level, offense.detectionId)
+          : await executeServerTimeout(userId, guildId, reason, client, level, step.durationHours! * 60 * 60 * 1000);
+      case 'ban':
+        return await executeServerBan(userId, guildId, reason, client, level, offense.detectionId, step.durationHours);
+      case 'global_review':
+        return await queueForReview(userId, guildId, reason, client, level, offense.detectionId);
+      default:
+        return {
+          success: true,
+          level,
+          action: 'none',
+          requiresModeratorReview: false,
+          message: 'No escalation step applies to this offense',
+        };
     }
   } catch (error) {
     logger.error('Error handling user offense', { error, userId, guildId });
@@ -53,7 +121,9 @@ async function executeServerTimeout(
   userId: string,
   guildId: string,
   reason: string,
-  client: Client
+  client: Client,
+  level: number,
+  durationMs: number
 ): Promise<TimeoutResult> {
   try {
     const guild = client.guilds.cache.get(guildId);
@@ -61,7 +131,8 @@ async function executeServerTimeout(
       logger.error('Guild not found', { guildId });
       return {
         success: false,
-        level: 1,
+        level,
+        action: 'timeout',
         requiresModeratorReview: false,
         message: 'Guild not found',
       };
@@ -72,31 +143,47 @@ async function executeServerTimeout(
       logger.error('Member not found', { userId, guildId });
       return {
         success: false,
-        level: 1,
+        level,
+        action: 'timeout',
         requiresModeratorReview: false,
         message: 'Member not found',
       };
     }
 
-    await member.timeout(ONE_WEEK_MS, `CSAM Detection: ${reason}`);
+    // Discord caps a timeout at 28 days; the timeout scheduler re-applies the rest in chunks.
+    const appliedMs = Math.min(durationMs, MAX_TIMEOUT_CHUNK_MS);
+    const expiresAt = new Date(Date.now() + durationMs);
 
-    const expiresAt = new Date(Date.now() + ONE_WEEK_MS);
+    await member.timeout(appliedMs, `CSAM Detection: ${reason}`);
+
+    await prisma.timeout.updateMany({
+      where: { userId, guildId, timeoutType: 'server', active: true },
+      data: { active: false, liftedAt: new Date(), liftReason: 'Superseded by a new timeout' },
+    });
 
     await prisma.timeout.create({
       data: {
         userId,
         guildId,
-        level: 1,
+        level,
         reason,
         timeoutType: 'server',
         active: true,
         expiresAt,
+        appliedUntil: new Date(Date.now() + appliedMs),
       },
     });
 
+    publishBotEvent({
+      type: 'timeout',
+      guildId,
+      userId,
+      data: { level, reason, expiresAt: expiresAt.toISOString() },
+    });
+
     await notifyModerationServer(client, {
       type: 'timeout',
-      level: 1,
+      level,
       userId,
       guildId,
       guildName: guild.name,
@@ -108,25 +195,137 @@ async function executeServerTimeout(
 
     return {
       success: true,
-      level: 1,
+      level,
+      action: 'timeout',
       requiresModeratorReview: false,
-      message: 'User timed out for 1 week (first offense)',
+      message: `User timed out until ${expiresAt.toISOString()}`,
     };
   } catch (error: any) {
     logger.error('Error executing server timeout', { error: error.message, userId, guildId });
     return {
       success: false,
-      level: 1,
+      level,
+      action: 'timeout',
       requiresModeratorReview: false,
       message: `Timeout failed: ${error.message}`,
     };
   }
 }
 
+export async function liftTimeout(guild: Guild, userId: string, options: LiftOptions): Promise<boolean> {
+  const activeTimeouts = await prisma.timeout.findMany({
+    where: { userId, guildId: guild.id, timeoutType: 'server', active: true },
+  });
+
+  if (activeTimeouts.length === 0) {
+    return false;
+  }
+
+  const ids = activeTimeouts.map(timeout => timeout.id);
+
+  // Marked lifted before the timeout is removed so the GuildMemberUpdate event for it is a no-op.
+  await prisma.timeout.updateMany({
+    where: { id: { in: ids } },
+    data: {
+      active: false,
+      liftedAt: new Date(),
+      liftedBy: options.moderatorId ?? null,
+      liftReason: options.reason,
+    },
+  });
+
+  try {
+    const member = await guild.members.fetch(userId);
+    await member.timeout(null, options.reason);
+  } catch (error: any) {
+    if (error.code !== RESTJSONErrorCodes.UnknownMember) {
+      await prisma.timeout.updateMany({
+        where: { id: { in: ids } },
+        data: { active: true, liftedAt: null, liftedBy: null, liftReason: null },
+      });
+      throw error;
+    }
+  }
+
+  logger.info('Timeout lifted', { userId, guildId: guild.id, reason: options.reason });
+
+  publishBotEvent({
+    type: 'timeout_lifted',
+    guildId: guild.id,
+    userId,
+    data: { timeoutIds: ids, reason: options.reason, moderatorId: options.moderatorId ?? null },
+  });
+
+  return true;
+}
+
+async function executeServerBan(
+  userId: string,
+  guildId: string,
+  reason: string,
+  client: Client,
+  level: number,
+  detectionId?: string,
+  durationHours?: number
+): Promise<TimeoutResult> {
+  try {
+    const guild = client.guilds.cache.get(guildId);
+    if (!guild) {
+      logger.error('Guild not found', { guildId });
+      return {
+        success: false,
+        level,
+        action: 'ban',
+        requiresModeratorReview: false,
+        message: 'Guild not found',
+      };
+    }
+
+    const ban = await banFromGuild(guild, userId, {
+      banType: 'server',
+      reason,
+      detectionId,
+      expiresAt: durationHours ? new Date(Date.now() + durationHours * 60 * 60 * 1000) : null,
+    });
+
+    await notifyModerationServer(client, {
+      type: 'ban',
+      level,
+      userId,
+      guildId,
+      guildName: guild.name,
+      reason,
+      expiresAt: ban.expiresAt ?? undefined,
+    });
+
+    logger.info('Server ban executed', { userId, guildId, expiresAt: ban.expiresAt });
+
+    return {
+      success: true,
+      level,
+      action: 'ban',
+      requiresModeratorReview: false,
+      message: ban.expiresAt ? `User banned from the server until ${ban.expiresAt.toISOString()}` : 'User banned from the server',
+    };
+  } catch (error: any) {
+    logger.error('Error executing server ban', { error: error.message, userId, guildId });
+    return {
+      success: false,
+      level,
+      action: 'ban',
+      requiresModeratorReview: false,
+      message: `Ban failed: ${error.message}`,
+    };
+  }
+}
+
 async function queueForReview(
   userId: string,
   guildId: string,
-  reason: string
+  reason: string,
+  client: Client,
+  level: number,
+  detectionId?: string
 ): Promise<TimeoutResult> {
   try {
     const expiresAt = new Date(Date.now() + ONE_WEEK_MS);
@@ -135,7 +334,7 @@ async function queueForReview(
       data: {
         userId,
         guildId,
-        level: 2,
+        level,
         reason,
         timeoutType: 'pending_review',
         active: false,
@@ -143,25 +342,39 @@ async function queueForReview(
       },
     });
 
-    const client = (global as any).discordClient;
-    if (client) {
-      await notifyModerationServer(client, {
-        type: 'pending_review',
-        level: 2,
-        userId,
-        guildId,
-        guildName: (await client.guilds.fetch(guildId)).name,
-        reason: `Second offense - ${reason}`,
+    if (detectionId) {
+      await prisma.moderatorReview.upsert({
+        where: { detectionId },
+        update: {},
+        create: { detectionId, status: 'pending', level: GLOBAL_BAN_REVIEW_LEVEL },
       });
     }
 
+    publishBotEvent({
+      type: 'review_created',
+      guildId,
+      userId,
+      data: { detectionId: detectionId ?? null, level, reason },
+    });
+
+    await notifyModerationServer(client, {
+      type: 'pending_review',
+      level,
+      userId,
+      guildId,
+      guildName: (await client.guilds.fetch(guildId)).name,
+      reason: `Offense ${level} - ${reason}`,
+      detectionId,
+    });
+
     logger.warn('User queued for review - sent to moderation server', { userId, guildId });
 
     return {
       success: true,
-      level: 2,
+      level,
+      action: 'global_review',
       requiresModeratorReview: true,
-      message: 'User queued for moderator review (second offense on different server)',
+      message: 'User queued for global ban review',
     };
   } catch (error) {
     logger.error('Error queueing for review', { error, userId, guildId });
@@ -179,6 +392,7 @@ export async function notifyModerationServer(
     guildName: string;
     reason: string;
     expiresAt?: Date;
+    detectionId?: string;
   }
 ): Promise<void> {
   try {
@@ -209,7 +423,7 @@ export async function notifyModerationServer(
       fields: [
         { name: 'Server', value: `${data.guildName} (${data.guildId})`, inline: true },
         { name: 'User', value: `${user.tag} (${user.id})`, inline: true },
-        { name: 'Action', value: data.type === 'timeout' ? '⏱️ 1 Week Timeout' : '⚠️ Pending Review', inline: true },
+        { name: 'Action', value: MODERATION_ACTION_LABELS[data.type] ?? data.type, inline: true },
         { name: 'Reason', value: data.reason, inline: false },
       ],
       timestamp: new Date().toISOString(),
@@ -224,7 +438,11 @@ export async function notifyModerationServer(
       });
     }
 
-    await modChannel.send({ embeds: [embed] });
+    const components = data.type === 'pending_review' && data.detectionId
+      ? [buildReviewButtons(data.detectionId)]
+      : [];
+
+    await modChannel.send({ embeds: [embed], components });
 
     logger.info('Moderation server notified', {
       serverId: config.moderationServerId,
@@ -252,7 +470,11 @@ export async function approveGlobalBan(userId: string, moderatorId: string, clie
 
     for (const guild of guilds) {
       try {
-        await guild.members.ban(userId, { reason: 'Global CSAM ban approved by moderator' });
+        await banFromGuild(guild, userId, {
+          banType: 'global',
+          reason: 'Global CSAM ban approved by moderator',
+          moderatorId,
+        });
         bannedCount++;
       } catch (error) {
         logger.error('Failed to ban user in guild', { guildId: guild.id, userId });
@@ -265,6 +487,13 @@ export async function approveGlobalBan(userId: string, moderatorId: string, clie
       guildsAffected: bannedCount,
     });
 
+    publishBotEvent({
+      type: 'global_ban',
+      guildId: null,
+      userId,
+      data: { moderatorId, guildsAffected: bannedCount },
+    });
+
     const config = await prisma.botConfig.findUnique({ where: { id: 'main' } });
     if (config && config.moderationServerId && config.moderationChannelId) {
       const modGuild = client.guilds.cache.get(config.moderationServerId);
@@ -330,23 +559,174 @@ export async function rejectGlobalBan(userId: string, moderatorId: string, notes
   }
 }
 
-export async function checkAndEnforceGlobalBan(userId: string, guild: Guild): Promise<boolean> {
+export async function revokeGlobalBan(
+  userId: string,
+  moderatorId: string,
+  reason: string,
+  client: Client
+): Promise<GlobalBanRevocationResult> {
   try {
     const user = await prisma.user.findUnique({ where: { id: userId } });
+    const globalBans = await prisma.ban.findMany({
+      where: { userId, banType: 'global', issuedByBot: true, active: true },
+    });
 
-    if (user && user.globallyBanned) {
-      await guild.members.ban(userId, { reason: 'Globally banned user detected' });
-      logger.info('Enforced global ban on join', { userId, guildId: guild.id });
-      return true;
+    if (!user?.globallyBanned && globalBans.length === 0) {
+      return { success: false, message: 'This user is not globally banned', results: [] };
     }
 
-    return false;
+    await prisma.user.update({
+      where: { id: userId },
+      data: { globallyBanned: false },
+    });
+
+    await prisma.timeout.updateMany({
+      where: { userId, timeoutType: 'global_approved', active: true },
+      data: { active: false, liftedAt: new Date(), liftedBy: moderatorId, liftReason: reason },
+    });
+
+    const results = globalBans.length === 0 ? await revokeUnrecordedGlobalBans(userId, reason, client) : [];
+
+    for (const globalBan of globalBans) {
+      const { guildId } = globalBan;
+      const guild = client.guilds.cache.get(guildId);
+      const lifted = { active: false, liftedAt: new Date(), liftedBy: moderatorId };
+
+      if (!guild) {
+        await prisma.ban.update({
+          where: { id: globalBan.id },
+          data: { ...lifted, liftReason: `${reason} (bot no longer in server)` },
+        });
+        results.push({ guildId, guildName: null, status: 'unavailable' });
+        continue;
+      }
+
+      // A moderator banned the user by hand before the global ban; only the bot's record is closed.
+      const manualBan = await findReplacedManualBan(globalBan);
+      if (manualBan) {
+        await prisma.ban.update({ where: { id: globalBan.id }, data: { ...lifted, liftReason: reason } });
+        await prisma.ban.update({
+          where: { id: manualBan.id },
+          data: { active: true, liftedAt: null, liftedBy: null, liftReason: null },
+        });
+        results.push({ guildId, guildName: guild.name, status: 'kept_manual_ban' });
+        continue;
+      }
+
+      try {
+        await liftBan(guild, userId, { reason, moderatorId });
+        results.push({ guildId, guildName: guild.name, status: 'unbanned' });
+      } catch (error: any) {
+        logger.error('Failed to unban user in guild', { error: error.message, guildId, userId });
+        results.push({ guildId, guildName: guild.name, status: 'failed', error: error.message });
+      }
+    }
+
+    const unbanned = results.filter(result => result.status === 'unbanned').length;
+    const failed = results.filter(result => result.status === 'failed');
+
+    await prisma.globalBanRevocation.create({
+      data: {
+        userId,
+        moderatorId,
+        reason,
+        unbanned,
+        failed: failed.length,
+        results: JSON.stringify(results),
+      },
+    });
+
+    logger.info('Global ban revoked', { userId, moderatorId, unbanned, failed: failed.length });
+
+    publishBotEvent({
+      type: 'global_ban_revoked',
+      guildId: null,
+      userId,
+      data: { moderatorId, reason, unbanned, failed: failed.length },
+    });
+
+    const config = await prisma.botConfig.findUnique({ where: { id: 'main' } });
+    if (config && config.moderationServerId && config.moderationChannelId) {
+      const modGuild = client.guilds.cache.get(config.moderationServerId);
+      const modChannel = modGuild?.channels.cache.get(config.moderationChannelId);
+
+      if (modChannel && modChannel.isTextBased()) {
+        const fields = [
+          { name: 'User ID', value: userId, inline: true },
+          { name: 'Moderator', value: `<@${moderatorId}>`, inline: true },
+          { name: 'Servers Unbanned', value: `${unbanned} of ${results.length} servers`, inline: true },
+          { name: 'Reason', value: reason, inline: false },
+        ];
+
+        const kept = results.filter(result => result.status === 'kept_manual_ban');
+        if (kept.length > 0) {
+          fields.push({
+            name: 'Manual Bans Kept',
+            value: kept.map(result => `${result.guildName} (${result.guildId})`).join('\n').slice(0, 1024),
+            inline: false,
+          });
+        }
+
+        if (failed.length > 0) {
+          fields.push({
+            name: 'Failed',
+            value: failed.map(result => `${result.guildName} (${result.guildId}): ${result.error}`).join('\n').slice(0, 1024),
+            inline: false,
+          });
+        }
+
+        await modChannel.send({
+          embeds: [{
+            title: '↩️ Global Ban Revoked',
+            color: 0x00FF00,
+            fields,
+            timestamp: new Date().toISOString(),
+          }],
+        });
+      }
+    }
+
+    return {
+      success: true,
+      message: failed.length > 0
+        ? `Global ban revoked, but unbanning failed in ${failed.length} servers`
+        : 'Global ban revoked',
+      results,
+    };
   } catch (error) {
-    logger.error('Error checking global ban', { error, userId });
-    return false;
+    logger.error('Error revoking global ban', { error, userId });
+    return { success: false, message: 'Failed to revoke the global ban, check the bot logs', results: [] };
   }
 }
 
+// Global bans from before the bot kept ban records have no rows, so the ban lists of its servers are checked instead.
+// Only bans with a reason the bot used for global bans are lifted, anything else was placed by hand.
+async function revokeUnrecordedGlobalBans(userId: string, reason: string, client: Client): Promise<GuildUnbanResult[]> {
+  const results: GuildUnbanResult[] = [];
+
+  for (const guild of client.guilds.cache.values()) {
+    try {
+      const ban = await guild.bans.fetch({ user: userId, force: true });
+
+      if (!ban.reason || !UNRECORDED_GLOBAL_BAN_REASONS.includes(ban.reason)) {
+        continue;
+      }
+
+      await guild.members.unban(userId, reason);
+      results.push({ guildId: guild.id, guildName: guild.name, status: 'unbanned' });
+    } catch (error: any) {
+      if (error.code === RESTJSONErrorCodes.UnknownBan) {
+        continue;
+      }
+
+      logger.error('Failed to unban user in guild', { error: error.message, guildId: guild.id, userId });
+      results.push({ guildId: guild.id, guildName: guild.name, status: 'failed', error: error.message });
+    }
+  }
+
+  return results;
+}
+
 export async function setModerationServer(serverId: string, channelId: string): Promise<void> {
   try {
     await prisma.botConfig.upsert({
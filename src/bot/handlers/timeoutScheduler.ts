@@ -0,0 +1,178 @@
+import { AuditLogEvent, Client, GuildMember } from 'discord.js';
+import { PrismaClient, Timeout } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { publishBotEvent } from '../../utils/eventBus';
+import { findAuditLogActor } from './auditLog';
+
+const prisma = new PrismaClient();
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Discord allows at most 28 days per timeout; a minute is left as headroom for clock skew.
+export const MAX_TIMEOUT_CHUNK_MS = 28 * 24 * 60 * 60 * 1000 - 60 * 1000;
+
+// The next chunk is applied this long before the current one ends, so the timeout never lapses.
+const REAPPLY_MARGIN_MS = 60 * 60 * 1000;
+const MISSING_MEMBER_RETRY_MS = 60 * 60 * 1000;
+
+// Timeouts whose member could not be fetched, with the time of the next attempt.
+const retryAfter = new Map<string, number>();
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startTimeoutScheduler(client: Client): void {
+  schedulerTimer = setInterval(() => void runTimeoutScheduler(client), SCHEDULER_INTERVAL_MS);
+  void runTimeoutScheduler(client);
+}
+
+export function stopTimeoutScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
+
+export async function handleGuildMemberUpdate(member: GuildMember): Promise<void> {
+  if (member.isCommunicationDisabled()) {
+    return;
+  }
+
+  const now = Date.now();
+  const timeout = await prisma.timeout.findFirst({
+    where: {
+      userId: member.id,
+      guildId: member.guild.id,
+      timeoutType: 'server',
+      active: true,
+      expiresAt: { gt: new Date(now) },
+    },
+  });
+
+  // A chunk that just ran out on its own is not an early removal; the scheduler applies the next one.
+  if (!timeout || (timeout.appliedUntil && timeout.appliedUntil.getTime() <= now)) {
+    return;
+  }
+
+  await recordEarlyRemoval(member, timeout);
+}
+
+async function recordEarlyRemoval(member: GuildMember, timeout: Timeout): Promise<void> {
+  const now = Date.now();
+  const actor = await findAuditLogActor(member.guild, AuditLogEvent.MemberUpdate, member.id);
+
+  await prisma.timeout.update({
+    where: { id: timeout.id },
+    data: {
+      active: false,
+      liftedAt: new Date(now),
+      liftedBy: actor?.executorId ?? null,
+      liftReason: actor?.reason ?? 'Timeout removed in Discord',
+    },
+  });
+
+  logger.info('Timeout removed early', {
+    timeoutId: timeout.id,
+    userId: member.id,
+    guildId: member.guild.id,
+    moderatorId: actor?.executorId ?? null,
+  });
+
+  publishBotEvent({
+    type: 'timeout_lifted',
+    guildId: member.guild.id,
+    userId: member.id,
+    data: { timeoutId: timeout.id, moderatorId: actor?.executorId ?? null, expiresAt: timeout.expiresAt.toISOString() },
+  });
+}
+
+async function runTimeoutScheduler(client: Client): Promise<void> {
+  if (running) {
+    return;
+  }
+
+  running = true;
+
+  try {
+    await expireTimeouts();
+    await reapplyTimeouts(client);
+  } catch (error) {
+    logger.error('Error running timeout scheduler', { error });
+  } finally {
+    running = false;
+  }
+}
+
+async function expireTimeouts(): Promise<void> {
+  const { count } = await prisma.timeout.updateMany({
+    where: { timeoutType: 'server', active: true, expiresAt: { lte: new Date() } },
+    data: { active: false },
+  });
+
+  if (count > 0) {
+    logger.info('Expired timeouts', { count });
+  }
+}
+
+async function reapplyTimeouts(client: Client): Promise<void> {
+  const now = Date.now();
+  const due = await prisma.timeout.findMany({
+    where: {
+      timeoutType: 'server',
+      active: true,
+      appliedUntil: { lte: new Date(now + REAPPLY_MARGIN_MS) },
+      expiresAt: { gt: new Date(now) },
+    },
+  });
+
+  for (const timeout of due) {
+    if (timeout.appliedUntil! >= timeout.expiresAt || (retryAfter.get(timeout.id) ?? 0) > now) {
+      continue;
+    }
+
+    await reapplyTimeout(client, timeout);
+  }
+}
+
+async function reapplyTimeout(client: Client, timeout: Timeout): Promise<void> {
+  const guild = client.guilds.cache.get(timeout.guildId);
+  if (!guild) {
+    return;
+  }
+
+  let member: GuildMember;
+  try {
+    member = await guild.members.fetch(timeout.userId);
+  } catch {
+    // Members who left keep their record; the rest of the timeout is applied if they are back by the next attempt.
+    retryAfter.set(timeout.id, Date.now() + MISSING_MEMBER_RETRY_MS);
+    return;
+  }
+
+  retryAfter.delete(timeout.id);
+
+  // The current chunk should still be running; if it is not, someone removed the timeout while the event was missed.
+  if (timeout.appliedUntil! > new Date() && !member.isCommunicationDisabled()) {
+    await recordEarlyRemoval(member, timeout);
+    return;
+  }
+
+  try {
+    const chunkMs = Math.min(timeout.expiresAt.getTime() - Date.now(), MAX_TIMEOUT_CHUNK_MS);
+    await member.timeout(chunkMs, `CSAM Detection (continued): ${timeout.reason}`);
+
+    await prisma.timeout.update({
+      where: { id: timeout.id },
+      data: { appliedUntil: new Date(Date.now() + chunkMs) },
+    });
+
+    logger.info('Re-applied long timeout', {
+      timeoutId: timeout.id,
+      userId: timeout.userId,
+      guildId: timeout.guildId,
+      expiresAt: timeout.expiresAt,
+    });
+  } catch (error) {
+    logger.error('Error re-applying timeout', { error, timeoutId: timeout.id, guildId: timeout.guildId });
+  }
+}
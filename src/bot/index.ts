@@ -1,9 +1,27 @@
-import { Client, GatewayIntentBits, Events, Guild, GuildMember } from 'discord.js';
+import { Client, GatewayIntentBits, Events, Guild, GuildBan, GuildMember, Partials } from 'discord.js';
 import { PrismaClient } from '@prisma/client';
 import { config, validateConfig } from '../config/config';
 import { logger } from '../utils/logger';
-import { handleMessageCreate } from './events/messageCreate';
-import { checkAndEnforceGlobalBan } from './handlers/banManager';
+import { handleMessageCreate, handleMessageImageScan, MESSAGE_IMAGE_SCAN, parseMessageImageScanPayload } from './events/messageCreate';
+import { handleMessageUpdate } from './events/messageUpdate';
+import { handleInteractionCreate } from './events/interactionCreate';
+import { registerCommands } from './commands';
+import { startDashboard, stopDashboard } from '../dashboard/server';
+import { getHashIndexes } from '../detection/hashMatcher';
+import { startFederationSync, stopFederationSync } from '../federation/subscriber';
+import { onScanDeadLetter, registerScanHandler, startScanQueue, stopScanQueue } from '../detection/scanQueue';
+import { onQuotaWarning } from '../detection/providerQuota';
+import { alertQuotaWarning, alertScanDeadLetter } from './handlers/moderatorAlert';
+import {
+  checkAndEnforceGlobalBan,
+  handleGuildBanAdd,
+  handleGuildBanRemove,
+  startBanExpiry,
+  stopBanExpiry,
+} from './handlers/banManager';
+import { loadEscalationPolicy } from './handlers/escalation';
+import { runBackfills } from './backfill';
+import { handleGuildMemberUpdate, startTimeoutScheduler, stopTimeoutScheduler } from './handlers/timeoutScheduler';
 
 const prisma = new PrismaClient();
 
@@ -12,25 +30,54 @@ const client = new Client({
     GatewayIntentBits.Guilds,
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.GuildMembers,
+    GatewayIntentBits.GuildModeration,
     GatewayIntentBits.MessageContent,
   ],
+  // Without the GuildMember partial, updates to members missing from the cache never reach GuildMemberUpdate.
+  partials: [Partials.Message, Partials.GuildMember],
 });
 
+registerScanHandler(MESSAGE_IMAGE_SCAN, parseMessageImageScanPayload, (payload, result) => handleMessageImageScan(payload, result, client));
+onScanDeadLetter(job => alertScanDeadLetter(client, job));
+onQuotaWarning(warning => alertQuotaWarning(client, warning));
+
 client.once(Events.ClientReady, async (c) => {
   logger.info(`Bot is ready! Logged in as ${c.user.tag}`);
   logger.info(`Connected to ${c.guilds.cache.size} guilds`);
 
   await syncGuilds();
+  await registerCommands(c);
+
+  // Scan results need the guild cache, so queued jobs only run once the client is ready.
+  await startScanQueue();
+  startBanExpiry(c);
+  startTimeoutScheduler(c);
 });
 
 client.on(Events.MessageCreate, async (message) => {
   try {
-    await handleMessageCreate(message, client);
+    await handleMessageCreate(message);
   } catch (error) {
     logger.error('Error in message create handler', { error });
   }
 });
 
+client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+  try {
+    await handleMessageUpdate(oldMessage, newMessage);
+  } catch (error) {
+    logger.error('Error in message update handler', { error });
+  }
+});
+
+client.on(Events.InteractionCreate, async (interaction) => {
+  try {
+    await handleInteractionCreate(interaction, client);
+  } catch (error) {
+    logger.error('Error in interaction create handler', { error });
+  }
+});
+
 client.on(Events.GuildCreate, async (guild: Guild) => {
   logger.info('Bot added to new guild', { guildId: guild.id, guildName: guild.name });
 
@@ -43,8 +90,6 @@ client.on(Events.GuildCreate, async (guild: Guild) => {
         name: guild.name,
         moderatorRoleIds: '',
         detectionEnabled: true,
-        autoDelete: true,
-        autoBan: true,
       },
     });
   } catch (error) {
@@ -64,6 +109,30 @@ client.on(Events.GuildMemberAdd, async (member: GuildMember) => {
   }
 });
 
+client.on(Events.GuildMemberUpdate, async (_oldMember, newMember: GuildMember) => {
+  try {
+    await handleGuildMemberUpdate(newMember);
+  } catch (error) {
+    logger.error('Error checking member timeout', { error, userId: newMember.id, guildId: newMember.guild.id });
+  }
+});
+
+client.on(Events.GuildBanAdd, async (ban: GuildBan) => {
+  try {
+    await handleGuildBanAdd(ban);
+  } catch (error) {
+    logger.error('Error recording guild ban', { error, userId: ban.user.id, guildId: ban.guild.id });
+  }
+});
+
+client.on(Events.GuildBanRemove, async (ban: GuildBan) => {
+  try {
+    await handleGuildBanRemove(ban);
+  } catch (error) {
+    logger.error('Error recording guild unban', { error, userId: ban.user.id, guildId: ban.guild.id });
+  }
+});
+
 client.on(Events.Error, (error) => {
   logger.error('Discord client error', { error });
 });
@@ -81,8 +150,6 @@ async function syncGuilds(): Promise<void> {
           name: guild.name,
           moderatorRoleIds: '',
           detectionEnabled: true,
-          autoDelete: true,
-          autoBan: true,
         },
       });
     }
@@ -97,6 +164,12 @@ async function gracefulShutdown(): Promise<void> {
   logger.info('Shutting down bot...');
 
   try {
+    await stopScanQueue();
+    stopBanExpiry();
+    stopTimeoutScheduler();
+    stopFederationSync();
+    await stopDashboard();
+
     await prisma.$disconnect();
     logger.info('Database connection closed');
 
@@ -116,10 +189,18 @@ process.on('SIGTERM', gracefulShutdown);
 async function start(): Promise<void> {
   try {
     validateConfig();
+    loadEscalationPolicy();
 
     await prisma.$connect();
     logger.info('Database connected successfully');
 
+    await runBackfills();
+
+    await getHashIndexes();
+
+    await startDashboard(client);
+    startFederationSync();
+
     await client.login(config.discord.token);
   } catch (error) {
     logger.error('Failed to start bot', { error });
@@ -7,6 +7,7 @@ interface Config {
     token: string;
     clientId: string;
     clientSecret: string;
+    redirectUri: string;
   };
   database: {
     url: string;
@@ -15,6 +16,7 @@ interface Config {
     port: number;
     url: string;
     jwtSecret: string;
+    trustProxy: boolean;
   };
   detection: {
     workerUrl?: string;
@@ -24,10 +26,51 @@ interface Config {
       apiSecret: string;
     };
     enableMLModel: boolean;
+    mlModel: {
+      path: string;
+      inputSize: number;
+      layout: string;
+      labels: string[];
+      flaggedLabels: string[];
+      mean: number[];
+      std: number[];
+      threads: number;
+    };
     detectionThreshold: number;
     reviewThreshold: number;
     maxConcurrentScans: number;
+    scanMaxAttempts: number;
+    scanRetryBaseSeconds: number;
+    scanDrainTimeoutSeconds: number;
+    verdictCacheTtlHours: number;
     imageMaxSizeMB: number;
+    maxAnimationFrames: number;
+    hashAlgorithms: string[];
+    hashMatchThresholds: Record<string, number>;
+    providerStrategy: string;
+    providerOrder: string[];
+    providerWeights: Record<string, number>;
+    circuitBreakerFailures: number;
+    circuitBreakerCooldownSeconds: number;
+    fixtureFile?: string;
+  };
+  escalation: {
+    policyFile?: string;
+    offenseWindowDays: number;
+  };
+  quota: {
+    dailyBudgets: Record<string, number>;
+    monthlyBudgets: Record<string, number>;
+    warningPercentages: number[];
+    exhaustedPolicy: string;
+    sampleRate: number;
+  };
+  federation: {
+    enabled: boolean;
+    instanceId: string;
+    privateKeyPath: string;
+    syncIntervalMinutes: number;
+    feedPageSize: number;
   };
   logging: {
     level: string;
@@ -51,11 +94,38 @@ function getOptionalEnvVar(key: string): string | undefined {
   return process.env[key];
 }
 
+function getListEnvVar(key: string, defaultValue: string): string[] {
+  return getEnvVar(key, defaultValue)
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function getNumberMapEnvVar(key: string, defaultValue = ''): Record<string, number> {
+  const result: Record<string, number> = {};
+  const pairs = (getOptionalEnvVar(key) ?? defaultValue).split(',').filter(pair => pair.trim().length > 0);
+
+  for (const pair of pairs) {
+    const [name, value] = pair.split('=').map(part => part.trim());
+    const parsed = parseFloat(value);
+    if (!name || isNaN(parsed)) {
+      throw new Error(`Invalid entry "${pair}" in ${key}, expected name=number`);
+    }
+    result[name] = parsed;
+  }
+
+  return result;
+}
+
 export const config: Config = {
   discord: {
     token: getEnvVar('DISCORD_BOT_TOKEN'),
     clientId: getEnvVar('DISCORD_CLIENT_ID'),
     clientSecret: getEnvVar('DISCORD_CLIENT_SECRET'),
+    redirectUri: getEnvVar(
+      'DISCORD_REDIRECT_URI',
+      `${getEnvVar('DASHBOARD_URL', 'http://localhost:3000')}/api/auth/callback`
+    ),
   },
   database: {
     url: getEnvVar('DATABASE_URL', 'file:./dev.db'),
@@ -64,6 +134,7 @@ export const config: Config = {
     port: parseInt(getEnvVar('DASHBOARD_PORT', '3000')),
     url: getEnvVar('DASHBOARD_URL', 'http://localhost:3000'),
     jwtSecret: getEnvVar('JWT_SECRET'),
+    trustProxy: getEnvVar('DASHBOARD_TRUST_PROXY', 'false') === 'true',
   },
   detection: {
     workerUrl: getOptionalEnvVar('WORKER_URL'),
@@ -75,10 +146,51 @@ export const config: Config = {
         }
       : undefined,
     enableMLModel: getEnvVar('ENABLE_ML_MODEL', 'false') === 'true',
+    mlModel: {
+      path: getEnvVar('ML_MODEL_PATH', './models/classifier.onnx'),
+      inputSize: parseInt(getEnvVar('ML_MODEL_INPUT_SIZE', '224')),
+      layout: getEnvVar('ML_MODEL_LAYOUT', 'nchw'),
+      labels: getListEnvVar('ML_MODEL_LABELS', 'safe,unsafe'),
+      flaggedLabels: getListEnvVar('ML_MODEL_FLAGGED_LABELS', 'unsafe'),
+      mean: getListEnvVar('ML_MODEL_MEAN', '0.485,0.456,0.406').map(parseFloat),
+      std: getListEnvVar('ML_MODEL_STD', '0.229,0.224,0.225').map(parseFloat),
+      threads: parseInt(getEnvVar('ML_MODEL_THREADS', '1')),
+    },
     detectionThreshold: parseFloat(getEnvVar('DETECTION_THRESHOLD', '0.85')),
     reviewThreshold: parseFloat(getEnvVar('REVIEW_THRESHOLD', '0.70')),
     maxConcurrentScans: parseInt(getEnvVar('MAX_CONCURRENT_SCANS', '2')),
+    scanMaxAttempts: parseInt(getEnvVar('SCAN_MAX_ATTEMPTS', '5')),
+    scanRetryBaseSeconds: parseInt(getEnvVar('SCAN_RETRY_BASE_SECONDS', '15')),
+    scanDrainTimeoutSeconds: parseInt(getEnvVar('SCAN_DRAIN_TIMEOUT_SECONDS', '20')),
+    verdictCacheTtlHours: parseFloat(getEnvVar('VERDICT_CACHE_TTL_HOURS', '24')),
     imageMaxSizeMB: parseInt(getEnvVar('IMAGE_MAX_SIZE_MB', '10')),
+    maxAnimationFrames: parseInt(getEnvVar('MAX_ANIMATION_FRAMES', '16')),
+    hashAlgorithms: getListEnvVar('HASH_ALGORITHMS', 'perceptual,phash,dhash,pdq,md5,sha1'),
+    hashMatchThresholds: getNumberMapEnvVar('HASH_MATCH_THRESHOLDS'),
+    providerStrategy: getEnvVar('PROVIDER_STRATEGY', 'fallback'),
+    providerOrder: getListEnvVar('PROVIDER_ORDER', 'cloudflare-worker,sightengine,local-model'),
+    providerWeights: getNumberMapEnvVar('PROVIDER_WEIGHTS'),
+    circuitBreakerFailures: parseInt(getEnvVar('CIRCUIT_BREAKER_FAILURES', '3')),
+    circuitBreakerCooldownSeconds: parseInt(getEnvVar('CIRCUIT_BREAKER_COOLDOWN_SECONDS', '60')),
+    fixtureFile: getOptionalEnvVar('FIXTURE_PROVIDER_FILE'),
+  },
+  escalation: {
+    policyFile: getOptionalEnvVar('ESCALATION_POLICY_FILE'),
+    offenseWindowDays: parseFloat(getEnvVar('OFFENSE_WINDOW_DAYS', '90')),
+  },
+  quota: {
+    dailyBudgets: getNumberMapEnvVar('PROVIDER_DAILY_BUDGETS', 'cloudflare-worker=100000,sightengine=2000'),
+    monthlyBudgets: getNumberMapEnvVar('PROVIDER_MONTHLY_BUDGETS'),
+    warningPercentages: getListEnvVar('QUOTA_WARNING_PERCENTAGES', '75,90').map(Number),
+    exhaustedPolicy: getEnvVar('QUOTA_EXHAUSTED_POLICY', 'switch'),
+    sampleRate: parseFloat(getEnvVar('QUOTA_SAMPLE_RATE', '0.1')),
+  },
+  federation: {
+    enabled: getEnvVar('FEDERATION_ENABLED', 'false') === 'true',
+    instanceId: getEnvVar('FEDERATION_INSTANCE_ID', 'no-csam-bot'),
+    privateKeyPath: getEnvVar('FEDERATION_PRIVATE_KEY_PATH', './data/federation-key.pem'),
+    syncIntervalMinutes: parseInt(getEnvVar('FEDERATION_SYNC_INTERVAL_MINUTES', '30')),
+    feedPageSize: parseInt(getEnvVar('FEDERATION_FEED_PAGE_SIZE', '1000')),
   },
   logging: {
     level: getEnvVar('LOG_LEVEL', 'info'),
@@ -95,10 +207,30 @@ export function validateConfig(): void {
     throw new Error('Discord bot token is required');
   }
 
-  if (!config.detection.workerUrl && !config.detection.sightengine) {
+  if (!config.detection.workerUrl && !config.detection.sightengine && !config.detection.enableMLModel
+    && !config.detection.providerOrder.includes('fixture')) {
     console.warn('Warning: No cloud detection API configured. Only hash matching will be available.');
   }
 
+  if (config.detection.enableMLModel) {
+    const { layout, mean, std } = config.detection.mlModel;
+    if (!['nchw', 'nhwc'].includes(layout) || mean.length !== 3 || std.length !== 3 || [...mean, ...std].some(isNaN)) {
+      throw new Error('ML_MODEL_LAYOUT must be nchw or nhwc, and ML_MODEL_MEAN / ML_MODEL_STD need 3 numbers each');
+    }
+  }
+
+  if (!['fallback', 'ensemble', 'any'].includes(config.detection.providerStrategy)) {
+    throw new Error('PROVIDER_STRATEGY must be fallback, ensemble or any');
+  }
+
+  if (!['switch', 'sample', 'hash-only'].includes(config.quota.exhaustedPolicy)) {
+    throw new Error('QUOTA_EXHAUSTED_POLICY must be switch, sample or hash-only');
+  }
+
+  if (config.quota.warningPercentages.some(percent => isNaN(percent) || percent <= 0 || percent >= 100)) {
+    throw new Error('QUOTA_WARNING_PERCENTAGES must be numbers between 0 and 100');
+  }
+
   if (config.dashboard.jwtSecret.length < 32) {
     throw new Error('JWT secret must be at least 32 characters long');
   }
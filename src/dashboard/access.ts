@@ -0,0 +1,40 @@
+import { Client } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { isGuildModerator, isNetworkModerator } from '../bot/handlers/permissions';
+
+const prisma = new PrismaClient();
+
+export interface DashboardAccess {
+  guildIds: string[];
+  networkModerator: boolean;
+}
+
+export async function resolveDashboardAccess(
+  client: Client,
+  userId: string,
+  candidateGuildIds: string[]
+): Promise<DashboardAccess> {
+  const guildIds: string[] = [];
+
+  for (const guildId of candidateGuildIds) {
+    const guild = client.guilds.cache.get(guildId);
+    if (!guild) continue;
+
+    try {
+      const member = await guild.members.fetch(userId);
+      const guildConfig = await prisma.guild.findUnique({ where: { id: guildId } });
+
+      if (isGuildModerator(member, guildConfig?.moderatorRoleIds ?? '')) {
+        guildIds.push(guildId);
+      }
+    } catch (error) {
+      logger.debug('Could not resolve dashboard access for guild', { guildId, userId });
+    }
+  }
+
+  return {
+    guildIds,
+    networkModerator: await isNetworkModerator(client, userId),
+  };
+}
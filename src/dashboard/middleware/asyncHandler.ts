@@ -0,0 +1,10 @@
+import { Request, RequestHandler, Response } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+
+export function asyncHandler<P = ParamsDictionary>(
+  handler: (req: Request<P>, res: Response) => Promise<void>
+): RequestHandler<P> {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
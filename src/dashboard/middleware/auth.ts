@@ -0,0 +1,106 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Client } from 'discord.js';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config/config';
+import { resolveDashboardAccess } from '../access';
+
+const TOKEN_ISSUER = 'no-csam-bot';
+
+export interface DashboardSession {
+  userId: string;
+  username: string;
+  guildIds: string[];
+  networkModerator: boolean;
+}
+
+export function signDashboardToken(session: DashboardSession, expiresIn: string | number = '12h'): string {
+  return jwt.sign(session, config.dashboard.jwtSecret, {
+    issuer: TOKEN_ISSUER,
+    subject: session.userId,
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
+
+export function verifyDashboardToken(token: string): DashboardSession | null {
+  try {
+    const payload = jwt.verify(token, config.dashboard.jwtSecret, { issuer: TOKEN_ISSUER });
+
+    if (typeof payload === 'string' || !payload.sub) {
+      return null;
+    }
+
+    return {
+      userId: payload.sub,
+      username: payload.username ?? 'Unknown',
+      guildIds: Array.isArray(payload.guildIds) ? payload.guildIds : [],
+      networkModerator: payload.networkModerator === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Only for tokens that already passed verifyDashboardToken. Returns milliseconds since the epoch.
+export function getTokenExpiry(token: string): number | null {
+  const payload = jwt.decode(token);
+  return payload && typeof payload !== 'string' && payload.exp ? payload.exp * 1000 : null;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.substring(7) : undefined;
+  const session = token ? verifyDashboardToken(token) : null;
+
+  if (!session) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  res.locals.session = session;
+  next();
+}
+
+// Tokens carry the access computed at login. Requests that change something check it again,
+// so a moderator who lost their role cannot act for the rest of the token's lifetime.
+export function revalidateAccessOnWrite(client: Client): RequestHandler {
+  return (req, res, next) => {
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      next();
+      return;
+    }
+
+    const session = getSession(res);
+
+    resolveDashboardAccess(client, session.userId, session.guildIds)
+      .then(access => {
+        res.locals.session = { ...session, guildIds: access.guildIds, networkModerator: access.networkModerator };
+        next();
+      })
+      .catch(next);
+  };
+}
+
+export function getSession(res: Response): DashboardSession {
+  return res.locals.session as DashboardSession;
+}
+
+export function requireNetworkModerator(_req: Request, res: Response, next: NextFunction): void {
+  if (!getSession(res).networkModerator) {
+    res.status(403).json({ error: 'Network moderator role required' });
+    return;
+  }
+
+  next();
+}
+
+export function canAccessGuild(session: DashboardSession, guildId: string): boolean {
+  return session.guildIds.includes(guildId);
+}
+
+export function guildScope(session: DashboardSession, requestedGuildId?: string): string | { in: string[] } | null {
+  if (requestedGuildId) {
+    return canAccessGuild(session, requestedGuildId) ? requestedGuildId : null;
+  }
+
+  return { in: session.guildIds };
+}
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { Client } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { canAccessGuild, getSession, guildScope } from '../middleware/auth';
+import { parsePagination, queryString } from '../validation';
+import { isAppealDecision, resolveAppeal } from '../../bot/handlers/appealManager';
+
+const prisma = new PrismaClient();
+
+export function createAppealsRouter(client: Client): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+    const session = getSession(res);
+    const requestedGuildId = queryString(req, 'guildId');
+    const guildId = session.networkModerator ? requestedGuildId : guildScope(session, requestedGuildId);
+
+    if (guildId === null) {
+      res.status(403).json({ error: 'No access to this guild' });
+      return;
+    }
+
+    const where = {
+      guildId,
+      userId: queryString(req, 'userId'),
+      scope: queryString(req, 'scope'),
+      status: queryString(req, 'status') ?? 'pending',
+    };
+
+    const [appeals, total] = await Promise.all([
+      prisma.appeal.findMany({
+        where,
+        include: { detection: true },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+      prisma.appeal.count({ where }),
+    ]);
+
+    res.json({ data: appeals, total, page, limit });
+  }));
+
+  router.post('/:id/resolve', asyncHandler<{ id: string }>(async (req, res) => {
+    const { decision, notes } = req.body ?? {};
+
+    if (!isAppealDecision(decision)) {
+      res.status(400).json({ error: 'decision must be one of accepted, denied' });
+      return;
+    }
+
+    if (notes !== undefined && typeof notes !== 'string') {
+      res.status(400).json({ error: 'notes must be a string' });
+      return;
+    }
+
+    const session = getSession(res);
+    const appeal = await prisma.appeal.findUnique({ where: { id: req.params.id } });
+
+    if (!appeal || (!session.networkModerator && !canAccessGuild(session, appeal.guildId))) {
+      res.status(404).json({ error: 'Appeal not found' });
+      return;
+    }
+
+    if (appeal.scope === 'global' && !session.networkModerator) {
+      res.status(403).json({ error: 'Only network moderators can decide global ban appeals' });
+      return;
+    }
+
+    const result = await resolveAppeal(
+      req.params.id,
+      { id: session.userId, username: session.username },
+      decision,
+      notes ?? '',
+      client
+    );
+
+    if (!result.success) {
+      res.status(409).json({ error: result.message });
+      return;
+    }
+
+    res.json({ message: result.message });
+  }));
+
+  return router;
+}
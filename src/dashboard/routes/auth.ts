@@ -0,0 +1,159 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Request, Router } from 'express';
+import { Client } from 'discord.js';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { getSession, requireAuth, signDashboardToken } from '../middleware/auth';
+import { resolveDashboardAccess } from '../access';
+import { queryString } from '../validation';
+
+const DISCORD_API_URL = 'https://discord.com/api/v10';
+const OAUTH_SCOPES = 'identify guilds';
+const STATE_AUDIENCE = 'oauth-state';
+const STATE_COOKIE = 'oauth_state';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+interface DiscordTokenResponse {
+  access_token: string;
+  token_type: string;
+}
+
+interface DiscordUserResponse {
+  id: string;
+  username: string;
+}
+
+interface DiscordPartialGuild {
+  id: string;
+}
+
+export function createAuthRouter(client: Client): Router {
+  const router = Router();
+
+  // The state is bound to the browser that started the login with a cookie, so a callback link
+  // made for someone else's login cannot sign the victim in to the attacker's account.
+  router.get('/login', (_req, res) => {
+    const nonce = randomBytes(16).toString('hex');
+    const state = jwt.sign({ nonce }, config.dashboard.jwtSecret, { audience: STATE_AUDIENCE, expiresIn: STATE_TTL_MS / 1000 });
+
+    res.cookie(STATE_COOKIE, nonce, {
+      httpOnly: true,
+      // Lax, not strict: the callback is a top-level redirect from discord.com.
+      sameSite: 'lax',
+      secure: config.dashboard.url.startsWith('https:'),
+      maxAge: STATE_TTL_MS,
+      path: '/api/auth',
+    });
+
+    const params = new URLSearchParams({
+      client_id: config.discord.clientId,
+      redirect_uri: config.discord.redirectUri,
+      response_type: 'code',
+      scope: OAUTH_SCOPES,
+      state,
+    });
+
+    res.redirect(`https://discord.com/oauth2/authorize?${params.toString()}`);
+  });
+
+  router.get('/callback', asyncHandler(async (req, res) => {
+    const code = queryString(req, 'code');
+    const state = queryString(req, 'state');
+
+    if (!code || !state) {
+      res.status(400).json({ error: 'code and state are required' });
+      return;
+    }
+
+    const cookieNonce = readCookie(req, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, { path: '/api/auth' });
+
+    let nonce: unknown;
+    try {
+      const payload = jwt.verify(state, config.dashboard.jwtSecret, { audience: STATE_AUDIENCE });
+      nonce = typeof payload === 'string' ? undefined : payload.nonce;
+    } catch {
+      res.status(400).json({ error: 'Invalid or expired state' });
+      return;
+    }
+
+    if (typeof nonce !== 'string' || !cookieNonce || !sameNonce(nonce, cookieNonce)) {
+      res.status(400).json({ error: 'Login was started in a different browser, start it again' });
+      return;
+    }
+
+    let accessToken: string;
+    try {
+      const tokenResponse = await axios.post<DiscordTokenResponse>(
+        `${DISCORD_API_URL}/oauth2/token`,
+        new URLSearchParams({
+          client_id: config.discord.clientId,
+          client_secret: config.discord.clientSecret,
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: config.discord.redirectUri,
+        }),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: 10000 }
+      );
+      accessToken = tokenResponse.data.access_token;
+    } catch (error: any) {
+      logger.warn('Discord OAuth2 code exchange failed', { error: error.message });
+      res.status(401).json({ error: 'Discord login failed' });
+      return;
+    }
+
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const [userResponse, guildsResponse] = await Promise.all([
+      axios.get<DiscordUserResponse>(`${DISCORD_API_URL}/users/@me`, { headers, timeout: 10000 }),
+      axios.get<DiscordPartialGuild[]>(`${DISCORD_API_URL}/users/@me/guilds`, { headers, timeout: 10000 }),
+    ]);
+
+    const user = userResponse.data;
+    const access = await resolveDashboardAccess(
+      client,
+      user.id,
+      guildsResponse.data.map(guild => guild.id)
+    );
+
+    const session = {
+      userId: user.id,
+      username: user.username,
+      guildIds: access.guildIds,
+      networkModerator: access.networkModerator,
+    };
+
+    logger.info('Dashboard login', {
+      userId: user.id,
+      guilds: access.guildIds.length,
+      networkModerator: access.networkModerator,
+    });
+
+    res.json({ token: signDashboardToken(session), session });
+  }));
+
+  router.get('/me', requireAuth, (_req, res) => {
+    res.json({ session: getSession(res) });
+  });
+
+  return router;
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+
+  return undefined;
+}
+
+function sameNonce(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,83 @@
+import { Response, Router } from 'express';
+import { Client } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { canAccessGuild, getSession, guildScope } from '../middleware/auth';
+import { parsePagination, queryBoolean, queryString } from '../validation';
+import { liftBan } from '../../bot/handlers/banManager';
+
+const prisma = new PrismaClient();
+
+export function createBansRouter(client: Client): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+    const guildId = scopedGuildFilter(res, queryString(req, 'guildId'));
+
+    if (guildId === null) {
+      res.status(403).json({ error: 'No access to this guild' });
+      return;
+    }
+
+    const where = {
+      guildId,
+      userId: queryString(req, 'userId'),
+      banType: queryString(req, 'type'),
+      active: queryBoolean(req, 'active'),
+      issuedByBot: queryBoolean(req, 'issuedByBot'),
+    };
+
+    const [bans, total] = await Promise.all([
+      prisma.ban.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.ban.count({ where }),
+    ]);
+
+    res.json({ data: bans, total, page, limit });
+  }));
+
+  router.post('/:id/lift', asyncHandler<{ id: string }>(async (req, res) => {
+    const { reason } = req.body ?? {};
+
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      res.status(400).json({ error: 'reason is required' });
+      return;
+    }
+
+    const session = getSession(res);
+    const ban = await prisma.ban.findUnique({ where: { id: req.params.id } });
+
+    if (!ban || !ban.active || (!session.networkModerator && !canAccessGuild(session, ban.guildId))) {
+      res.status(404).json({ error: 'Active ban not found' });
+      return;
+    }
+
+    if (ban.banType === 'global' && !session.networkModerator) {
+      res.status(403).json({ error: 'Only network moderators can lift global bans' });
+      return;
+    }
+
+    const guild = client.guilds.cache.get(ban.guildId);
+
+    if (!guild) {
+      res.status(409).json({ error: 'The bot is no longer in this guild' });
+      return;
+    }
+
+    await liftBan(guild, ban.userId, { reason: reason.trim(), moderatorId: session.userId });
+
+    res.json({ message: 'Ban lifted' });
+  }));
+
+  return router;
+}
+
+function scopedGuildFilter(res: Response, requestedGuildId?: string): string | { in: string[] } | undefined | null {
+  const session = getSession(res);
+  return session.networkModerator ? requestedGuildId : guildScope(session, requestedGuildId);
+}
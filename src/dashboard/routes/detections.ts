@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { canAccessGuild, getSession, guildScope } from '../middleware/auth';
+import { parsePagination, queryBoolean, queryDate, queryString } from '../validation';
+
+const prisma = new PrismaClient();
+
+export function createDetectionsRouter(): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+    const since = queryDate(req, 'since');
+    const until = queryDate(req, 'until');
+    const guildId = guildScope(getSession(res), queryString(req, 'guildId'));
+
+    if (!guildId) {
+      res.status(403).json({ error: 'No access to this guild' });
+      return;
+    }
+
+    const where = {
+      guildId,
+      userId: queryString(req, 'userId'),
+      detectionMethod: queryString(req, 'method'),
+      sourceType: queryString(req, 'sourceType'),
+      flagged: queryBoolean(req, 'flagged'),
+      createdAt: since || until ? { gte: since, lte: until } : undefined,
+    };
+
+    const [detections, total] = await Promise.all([
+      prisma.detection.findMany({
+        where,
+        include: { moderatorReview: true },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.detection.count({ where }),
+    ]);
+
+    res.json({ data: detections, total, page, limit });
+  }));
+
+  router.get('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    const detection = await prisma.detection.findUnique({
+      where: { id: req.params.id },
+      include: { moderatorReview: true, user: true },
+    });
+
+    if (!detection || !canAccessGuild(getSession(res), detection.guildId)) {
+      res.status(404).json({ error: 'Detection not found' });
+      return;
+    }
+
+    res.json({ data: detection });
+  }));
+
+  return router;
+}
@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../../config/config';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { queryString } from '../validation';
+import { buildSignedFeed, parseCursor } from '../../federation/publisher';
+import { getPublicKeyPem } from '../../federation/signing';
+import { syncPeer } from '../../federation/subscriber';
+import { isSeverity } from '../../detection/hashLists';
+
+const prisma = new PrismaClient();
+
+const TRUST_LEVELS = ['auto', 'review'];
+
+export function createFederationFeedRouter(): Router {
+  const router = Router();
+
+  router.use((_req, res, next) => {
+    if (!config.federation.enabled) {
+      res.status(404).json({ error: 'Federation is not enabled on this instance' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/key', (_req, res) => {
+    res.json({ instanceId: config.federation.instanceId, publicKey: getPublicKeyPem() });
+  });
+
+  router.get('/feed', asyncHandler(async (req, res) => {
+    const since = queryString(req, 'since');
+
+    try {
+      parseCursor(since);
+    } catch {
+      res.status(400).json({ error: 'Invalid since cursor' });
+      return;
+    }
+
+    res.json(await buildSignedFeed(since));
+  }));
+
+  return router;
+}
+
+export function createPeersRouter(): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (_req, res) => {
+    const peers = await prisma.federationPeer.findMany({ orderBy: { name: 'asc' } });
+    res.json({ data: peers });
+  }));
+
+  router.post('/', asyncHandler(async (req, res) => {
+    const { name, url, instanceId, publicKey, trustLevel = 'review', severityCap, hashTypes } = req.body ?? {};
+
+    if (![name, url, instanceId, publicKey].every(value => typeof value === 'string' && value.length > 0)) {
+      res.status(400).json({ error: 'name, url, instanceId and publicKey are required' });
+      return;
+    }
+
+    const validationError = validatePeerSettings({ trustLevel, severityCap, hashTypes });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = await prisma.federationPeer.findUnique({ where: { instanceId } });
+    if (existing) {
+      res.status(409).json({ error: 'A peer with this instanceId already exists', data: existing });
+      return;
+    }
+
+    const peer = await prisma.federationPeer.create({
+      data: { name, url, instanceId, publicKey, trustLevel, severityCap, hashTypes },
+    });
+
+    res.status(201).json({ data: peer });
+  }));
+
+  router.patch('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    const { name, url, publicKey, enabled, trustLevel, severityCap, hashTypes } = req.body ?? {};
+
+    const validationError = validatePeerSettings({ trustLevel, severityCap, hashTypes });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+
+    const existing = await prisma.federationPeer.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Peer not found' });
+      return;
+    }
+
+    const peer = await prisma.federationPeer.update({
+      where: { id: req.params.id },
+      data: { name, url, publicKey, enabled, trustLevel, severityCap, hashTypes },
+    });
+
+    res.json({ data: peer });
+  }));
+
+  router.delete('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    const { count } = await prisma.federationPeer.deleteMany({ where: { id: req.params.id } });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Peer not found' });
+      return;
+    }
+
+    res.status(204).end();
+  }));
+
+  router.post('/:id/sync', asyncHandler<{ id: string }>(async (req, res) => {
+    const peer = await prisma.federationPeer.findUnique({ where: { id: req.params.id } });
+
+    if (!peer) {
+      res.status(404).json({ error: 'Peer not found' });
+      return;
+    }
+
+    const result = await syncPeer(peer);
+    res.status(result.error ? 502 : 200).json({ data: result });
+  }));
+
+  return router;
+}
+
+function validatePeerSettings(settings: { trustLevel?: unknown; severityCap?: unknown; hashTypes?: unknown }): string | null {
+  if (settings.trustLevel !== undefined && !TRUST_LEVELS.includes(settings.trustLevel as string)) {
+    return 'trustLevel must be auto or review';
+  }
+
+  if (settings.severityCap !== undefined && settings.severityCap !== null && !isSeverity(settings.severityCap)) {
+    return 'severityCap must be low, medium, high or null';
+  }
+
+  if (settings.hashTypes !== undefined && settings.hashTypes !== null && typeof settings.hashTypes !== 'string') {
+    return 'hashTypes must be a comma-separated string or null';
+  }
+
+  return null;
+}
@@ -0,0 +1,123 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { canAccessGuild, getSession } from '../middleware/auth';
+import { logger } from '../../utils/logger';
+import { ACTION_POLICIES, isActionPolicy } from '../../bot/handlers/actionPolicy';
+import { resolveThresholds, validateThresholds } from '../../detection/detectionPipeline';
+
+const prisma = new PrismaClient();
+
+const BOOLEAN_SETTINGS = ['detectionEnabled'] as const;
+const THRESHOLD_SETTINGS = ['detectionThreshold', 'reviewThreshold'] as const;
+
+export function createGuildsRouter(): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (_req, res) => {
+    const guilds = await prisma.guild.findMany({
+      where: { id: { in: getSession(res).guildIds } },
+      orderBy: { name: 'asc' },
+    });
+    res.json({ data: guilds });
+  }));
+
+  router.get('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    if (!canAccessGuild(getSession(res), req.params.id)) {
+      res.status(404).json({ error: 'Guild not found' });
+      return;
+    }
+
+    const guild = await prisma.guild.findUnique({ where: { id: req.params.id } });
+
+    if (!guild) {
+      res.status(404).json({ error: 'Guild not found' });
+      return;
+    }
+
+    res.json({ data: guild });
+  }));
+
+  router.patch('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    if (!canAccessGuild(getSession(res), req.params.id)) {
+      res.status(404).json({ error: 'Guild not found' });
+      return;
+    }
+
+    const body = req.body ?? {};
+    const data: Record<string, string | number | boolean | null> = {};
+
+    for (const key of BOOLEAN_SETTINGS) {
+      if (body[key] === undefined) continue;
+
+      if (typeof body[key] !== 'boolean') {
+        res.status(400).json({ error: `${key} must be a boolean` });
+        return;
+      }
+      data[key] = body[key];
+    }
+
+    if (body.actionPolicy !== undefined) {
+      if (!isActionPolicy(body.actionPolicy)) {
+        res.status(400).json({ error: `actionPolicy must be one of: ${ACTION_POLICIES.join(', ')}` });
+        return;
+      }
+      data.actionPolicy = body.actionPolicy;
+    }
+
+    for (const key of THRESHOLD_SETTINGS) {
+      if (body[key] === undefined) continue;
+
+      if (body[key] !== null && typeof body[key] !== 'number') {
+        res.status(400).json({ error: `${key} must be a number between 0 and 1, or null for the default` });
+        return;
+      }
+      data[key] = body[key];
+    }
+
+    if (body.alertChannelId !== undefined) {
+      if (body.alertChannelId !== null && typeof body.alertChannelId !== 'string') {
+        res.status(400).json({ error: 'alertChannelId must be a string or null' });
+        return;
+      }
+      data.alertChannelId = body.alertChannelId;
+    }
+
+    if (body.moderatorRoleIds !== undefined) {
+      if (!Array.isArray(body.moderatorRoleIds) || !body.moderatorRoleIds.every((id: unknown) => typeof id === 'string')) {
+        res.status(400).json({ error: 'moderatorRoleIds must be an array of role IDs' });
+        return;
+      }
+      data.moderatorRoleIds = body.moderatorRoleIds.join(',');
+    }
+
+    const existing = await prisma.guild.findUnique({ where: { id: req.params.id } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Guild not found' });
+      return;
+    }
+
+    const thresholdError = validateThresholds(resolveThresholds({
+      detectionThreshold: 'detectionThreshold' in data ? body.detectionThreshold : existing.detectionThreshold,
+      reviewThreshold: 'reviewThreshold' in data ? body.reviewThreshold : existing.reviewThreshold,
+    }));
+
+    if (thresholdError) {
+      res.status(400).json({ error: thresholdError });
+      return;
+    }
+
+    const guild = await prisma.guild.update({ where: { id: req.params.id }, data });
+
+    logger.info('Guild configuration updated from dashboard', {
+      guildId: guild.id,
+      moderatorId: getSession(res).userId,
+      changes: data,
+    });
+
+    res.json({ data: guild });
+  }));
+
+  return router;
+}
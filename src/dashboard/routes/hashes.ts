@@ -0,0 +1,222 @@
+import express, { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { getSession } from '../middleware/auth';
+import { parsePagination, queryBoolean, queryString } from '../validation';
+import { addKnownHash, removeHash, updateHash } from '../../detection/hashMatcher';
+import { HASH_ALGORITHMS, isHashType } from '../../detection/hashAlgorithms';
+import {
+  exportHashList,
+  HashListImportError,
+  importHashList,
+  isHashListFormat,
+  isSeverity,
+  Severity,
+} from '../../detection/hashLists';
+
+const prisma = new PrismaClient();
+
+const SEVERITIES = ['low', 'medium', 'high'];
+const IMPORT_BODY_LIMIT = '50mb';
+
+export function createHashesRouter(): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+
+    const where = {
+      hashType: queryString(req, 'hashType'),
+      source: queryString(req, 'source'),
+      severity: queryString(req, 'severity'),
+      active: queryBoolean(req, 'active'),
+    };
+
+    const [hashes, total] = await Promise.all([
+      prisma.hashDatabase.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.hashDatabase.count({ where }),
+    ]);
+
+    res.json({ data: hashes, total, page, limit });
+  }));
+
+  router.post('/', asyncHandler(async (req, res) => {
+    const { hash, source, severity, hashType = 'perceptual' } = req.body ?? {};
+
+    if (!isHashType(hashType)) {
+      res.status(400).json({ error: `hashType must be one of ${Object.keys(HASH_ALGORITHMS).join(', ')}` });
+      return;
+    }
+
+    const expectedLength = HASH_ALGORITHMS[hashType].bitLength / 4;
+    if (typeof hash !== 'string' || !/^[0-9a-f]+$/i.test(hash) || hash.length !== expectedLength) {
+      res.status(400).json({ error: `hash must be a ${expectedLength}-character hex string for ${hashType}` });
+      return;
+    }
+
+    if (typeof source !== 'string' || source.length === 0) {
+      res.status(400).json({ error: 'source is required' });
+      return;
+    }
+
+    if (severity !== undefined && !SEVERITIES.includes(severity)) {
+      res.status(400).json({ error: 'severity must be low, medium or high' });
+      return;
+    }
+
+    const existing = await prisma.hashDatabase.findUnique({
+      where: { hash_hashType: { hash: hash.toLowerCase(), hashType } },
+    });
+    if (existing) {
+      res.status(409).json({ error: 'Hash already exists', data: existing });
+      return;
+    }
+
+    await addKnownHash(hash.toLowerCase(), source, severity, hashType);
+    res.status(201).json({ message: 'Hash added' });
+  }));
+
+  router.get('/lists', asyncHandler(async (req, res) => {
+    const lists = await prisma.hashList.findMany({
+      where: { source: queryString(req, 'source') },
+      orderBy: { importedAt: 'desc' },
+      take: 100,
+    });
+
+    res.json({ data: lists });
+  }));
+
+  router.get('/export', asyncHandler(async (req, res) => {
+    const format = queryString(req, 'format') ?? 'jsonl';
+
+    if (!isHashListFormat(format)) {
+      res.status(400).json({ error: 'format must be csv or jsonl' });
+      return;
+    }
+
+    const source = queryString(req, 'source');
+    const content = await exportHashList({ format, source, activeOnly: queryBoolean(req, 'active') ?? true });
+    const filename = `${source ?? 'hashes'}.${format}`.replace(/[^\w.-]/g, '_');
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  }));
+
+  router.post(
+    '/import',
+    express.text({ type: () => true, limit: IMPORT_BODY_LIMIT }),
+    asyncHandler(async (req, res) => {
+      const format = queryString(req, 'format');
+      const source = queryString(req, 'source');
+      const version = queryString(req, 'version');
+      const hashType = queryString(req, 'hashType');
+      const defaultSeverity = queryString(req, 'defaultSeverity');
+      const onDuplicate = queryString(req, 'onDuplicate') ?? 'skip';
+
+      if (!isHashListFormat(format)) {
+        res.status(400).json({ error: 'format must be csv or jsonl' });
+        return;
+      }
+
+      if (!source || !version) {
+        res.status(400).json({ error: 'source and version are required' });
+        return;
+      }
+
+      if (hashType !== undefined && !isHashType(hashType)) {
+        res.status(400).json({ error: `hashType must be one of ${Object.keys(HASH_ALGORITHMS).join(', ')}` });
+        return;
+      }
+
+      if (defaultSeverity !== undefined && !isSeverity(defaultSeverity)) {
+        res.status(400).json({ error: 'defaultSeverity must be low, medium or high' });
+        return;
+      }
+
+      if (onDuplicate !== 'skip' && onDuplicate !== 'overwrite') {
+        res.status(400).json({ error: 'onDuplicate must be skip or overwrite' });
+        return;
+      }
+
+      const severityMap: Record<string, Severity> = {};
+      for (const pair of (queryString(req, 'severityMap') ?? '').split(',').filter(Boolean)) {
+        const [label, severity] = pair.split(':');
+        if (!label || !isSeverity(severity)) {
+          res.status(400).json({ error: 'severityMap must look like label:high,label2:medium' });
+          return;
+        }
+        severityMap[label] = severity;
+      }
+
+      if (typeof req.body !== 'string' || req.body.length === 0) {
+        res.status(400).json({ error: 'Request body must contain the hash list' });
+        return;
+      }
+
+      try {
+        const result = await importHashList(req.body, {
+          format,
+          source,
+          version,
+          defaultHashType: hashType,
+          defaultSeverity,
+          severityMap,
+          onDuplicate,
+          importedBy: getSession(res).userId,
+          force: queryBoolean(req, 'force') ?? false,
+        });
+
+        res.status(201).json({ data: result.list, errors: result.errors });
+      } catch (error) {
+        if (error instanceof HashListImportError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+    })
+  );
+
+  router.patch('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    const { severity, active } = req.body ?? {};
+
+    if (severity !== undefined && !SEVERITIES.includes(severity)) {
+      res.status(400).json({ error: 'severity must be low, medium or high' });
+      return;
+    }
+
+    if (active !== undefined && typeof active !== 'boolean') {
+      res.status(400).json({ error: 'active must be a boolean' });
+      return;
+    }
+
+    const updated = await updateHash(req.params.id, { severity, active });
+
+    if (!updated) {
+      res.status(404).json({ error: 'Hash not found' });
+      return;
+    }
+
+    res.json({ data: updated });
+  }));
+
+  router.delete('/:hash', asyncHandler<{ hash: string }>(async (req, res) => {
+    const hashType = queryString(req, 'hashType');
+
+    if (hashType !== undefined && !isHashType(hashType)) {
+      res.status(400).json({ error: `hashType must be one of ${Object.keys(HASH_ALGORITHMS).join(', ')}` });
+      return;
+    }
+
+    await removeHash(req.params.hash.toLowerCase(), hashType);
+    res.status(204).end();
+  }));
+
+  return router;
+}
@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { Client } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { canAccessGuild, getSession, guildScope } from '../middleware/auth';
+import { parsePagination, queryString } from '../validation';
+import { isReviewDecision, requiresNetworkModerator, resolveReview } from '../../bot/handlers/reviewManager';
+
+const prisma = new PrismaClient();
+
+export function createReviewsRouter(client: Client): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+    const session = getSession(res);
+    const requestedGuildId = queryString(req, 'guildId');
+    const guildId = session.networkModerator ? requestedGuildId : guildScope(session, requestedGuildId);
+
+    if (guildId === null) {
+      res.status(403).json({ error: 'No access to this guild' });
+      return;
+    }
+
+    const where = {
+      status: queryString(req, 'status') ?? 'pending',
+      detection: { guildId },
+    };
+
+    const [reviews, total] = await Promise.all([
+      prisma.moderatorReview.findMany({
+        where,
+        include: { detection: true },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+      prisma.moderatorReview.count({ where }),
+    ]);
+
+    res.json({ data: reviews, total, page, limit });
+  }));
+
+  router.post('/:detectionId/resolve', asyncHandler<{ detectionId: string }>(async (req, res) => {
+    const { decision, notes } = req.body ?? {};
+
+    if (!isReviewDecision(decision)) {
+      res.status(400).json({ error: 'decision must be one of approved, rejected, false_positive' });
+      return;
+    }
+
+    if (notes !== undefined && typeof notes !== 'string') {
+      res.status(400).json({ error: 'notes must be a string' });
+      return;
+    }
+
+    const session = getSession(res);
+    const review = await prisma.moderatorReview.findUnique({
+      where: { detectionId: req.params.detectionId },
+      include: { detection: true },
+    });
+
+    if (!review || (!session.networkModerator && !canAccessGuild(session, review.detection.guildId))) {
+      res.status(404).json({ error: 'Review not found' });
+      return;
+    }
+
+    if (requiresNetworkModerator(review.level, decision) && !session.networkModerator) {
+      res.status(403).json({
+        error: decision === 'approved'
+          ? 'Only network moderators can approve global bans'
+          : 'Only network moderators can decide global ban reviews',
+      });
+      return;
+    }
+
+    const result = await resolveReview(
+      req.params.detectionId,
+      { id: session.userId, username: session.username },
+      decision,
+      notes ?? '',
+      client
+    );
+
+    if (!result.success) {
+      res.status(409).json({ error: result.message });
+      return;
+    }
+
+    res.json({ message: result.message });
+  }));
+
+  return router;
+}
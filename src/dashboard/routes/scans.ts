@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { parsePagination, queryString } from '../validation';
+import { retryScanJob, SCAN_PRIORITIES, ScanPriority } from '../../detection/scanQueue';
+
+const prisma = new PrismaClient();
+
+export function createScansRouter(): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+    const where = { status: queryString(req, 'status'), kind: queryString(req, 'kind') };
+
+    const [jobs, total] = await Promise.all([
+      prisma.scanJob.findMany({
+        where,
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      prisma.scanJob.count({ where }),
+    ]);
+
+    res.json({ data: jobs, total, page, limit });
+  }));
+
+  router.get('/stats', asyncHandler(async (_req, res) => {
+    const groups = await prisma.scanJob.groupBy({ by: ['status'], _count: { _all: true } });
+    res.json({ data: Object.fromEntries(groups.map(group => [group.status, group._count._all])) });
+  }));
+
+  router.post('/:id/retry', asyncHandler<{ id: string }>(async (req, res) => {
+    const { priority = 'high' } = req.body ?? {};
+
+    if (!(priority in SCAN_PRIORITIES)) {
+      res.status(400).json({ error: `priority must be one of ${Object.keys(SCAN_PRIORITIES).join(', ')}` });
+      return;
+    }
+
+    const job = await retryScanJob(req.params.id, priority as ScanPriority);
+
+    if (!job) {
+      res.status(404).json({ error: 'Dead letter job not found' });
+      return;
+    }
+
+    res.json({ data: job });
+  }));
+
+  router.delete('/:id', asyncHandler<{ id: string }>(async (req, res) => {
+    const { count } = await prisma.scanJob.deleteMany({ where: { id: req.params.id, status: 'dead' } });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Dead letter job not found' });
+      return;
+    }
+
+    res.status(204).end();
+  }));
+
+  return router;
+}
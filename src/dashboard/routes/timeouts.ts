@@ -0,0 +1,103 @@
+import { Response, Router } from 'express';
+import { Client } from 'discord.js';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { canAccessGuild, getSession, guildScope } from '../middleware/auth';
+import { parsePagination, queryBoolean, queryString } from '../validation';
+import { approveGlobalBan, rejectGlobalBan } from '../../bot/handlers/timeoutManager';
+
+const prisma = new PrismaClient();
+
+export function createTimeoutsRouter(client: Client): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const { page, limit, skip } = parsePagination(req);
+    const guildId = scopedGuildFilter(res, queryString(req, 'guildId'));
+
+    if (guildId === null) {
+      res.status(403).json({ error: 'No access to this guild' });
+      return;
+    }
+
+    const where = {
+      guildId,
+      userId: queryString(req, 'userId'),
+      timeoutType: queryString(req, 'type'),
+      active: queryBoolean(req, 'active'),
+    };
+
+    const [timeouts, total] = await Promise.all([
+      prisma.timeout.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.timeout.count({ where }),
+    ]);
+
+    res.json({ data: timeouts, total, page, limit });
+  }));
+
+  router.get('/pending', asyncHandler(async (req, res) => {
+    const guildId = scopedGuildFilter(res, queryString(req, 'guildId'));
+
+    if (guildId === null) {
+      res.status(403).json({ error: 'No access to this guild' });
+      return;
+    }
+
+    const timeouts = await prisma.timeout.findMany({
+      where: { timeoutType: 'pending_review', guildId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ data: timeouts });
+  }));
+
+  router.post('/:id/resolve', asyncHandler<{ id: string }>(async (req, res) => {
+    const { decision, notes } = req.body ?? {};
+
+    if (decision !== 'approved' && decision !== 'rejected') {
+      res.status(400).json({ error: 'decision must be approved or rejected' });
+      return;
+    }
+
+    const session = getSession(res);
+    const timeout = await prisma.timeout.findUnique({ where: { id: req.params.id } });
+
+    if (
+      !timeout ||
+      timeout.timeoutType !== 'pending_review' ||
+      (!session.networkModerator && !canAccessGuild(session, timeout.guildId))
+    ) {
+      res.status(404).json({ error: 'Pending timeout not found' });
+      return;
+    }
+
+    // Every pending timeout is a Level 2 review, so rejecting it is a global decision as well.
+    if (!session.networkModerator) {
+      res.status(403).json({ error: 'Only network moderators can decide global ban reviews' });
+      return;
+    }
+
+    const succeeded = decision === 'approved'
+      ? await approveGlobalBan(timeout.userId, session.userId, client)
+      : await rejectGlobalBan(timeout.userId, session.userId, typeof notes === 'string' ? notes : '', client);
+
+    if (!succeeded) {
+      res.status(500).json({ error: 'Failed to apply the decision' });
+      return;
+    }
+
+    res.json({ message: decision === 'approved' ? 'Global ban approved' : 'Global ban rejected' });
+  }));
+
+  return router;
+}
+
+function scopedGuildFilter(res: Response, requestedGuildId?: string): string | { in: string[] } | undefined | null {
+  const session = getSession(res);
+  return session.networkModerator ? requestedGuildId : guildScope(session, requestedGuildId);
+}
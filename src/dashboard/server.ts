@@ -0,0 +1,105 @@
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import rateLimit from 'express-rate-limit';
+import { Server } from 'http';
+import { Client } from 'discord.js';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { requireAuth, requireNetworkModerator, revalidateAccessOnWrite } from './middleware/auth';
+import { createAuthRouter } from './routes/auth';
+import { createDetectionsRouter } from './routes/detections';
+import { createReviewsRouter } from './routes/reviews';
+import { createTimeoutsRouter } from './routes/timeouts';
+import { createBansRouter } from './routes/bans';
+import { createAppealsRouter } from './routes/appeals';
+import { createGuildsRouter } from './routes/guilds';
+import { createHashesRouter } from './routes/hashes';
+import { createFederationFeedRouter, createPeersRouter } from './routes/federation';
+import { createScansRouter } from './routes/scans';
+import { attachEventStream, closeEventStream } from './websocket';
+
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+const RATE_LIMIT_MAX_REQUESTS = 300;
+
+let server: Server | null = null;
+
+export function createDashboardApp(client: Client): express.Express {
+  const app = express();
+
+  app.disable('x-powered-by');
+
+  // Behind a reverse proxy the client address comes from X-Forwarded-For, which the rate limiter keys on.
+  if (config.dashboard.trustProxy) {
+    app.set('trust proxy', 1);
+  }
+
+  app.use(cors({ origin: config.dashboard.url }));
+  app.use(rateLimit({
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    limit: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    message: { error: 'Too many requests' },
+  }));
+  app.use(express.json({ limit: '1mb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok', discord: client.isReady() });
+  });
+
+  app.use('/federation', createFederationFeedRouter());
+  app.use('/api/auth', createAuthRouter(client));
+  app.use('/api', requireAuth, revalidateAccessOnWrite(client));
+  app.use('/api/detections', createDetectionsRouter());
+  app.use('/api/reviews', createReviewsRouter(client));
+  app.use('/api/timeouts', createTimeoutsRouter(client));
+  app.use('/api/bans', createBansRouter(client));
+  app.use('/api/appeals', createAppealsRouter(client));
+  app.use('/api/guilds', createGuildsRouter());
+  app.use('/api/hashes', requireNetworkModerator, createHashesRouter());
+  app.use('/api/federation/peers', requireNetworkModerator, createPeersRouter());
+  app.use('/api/scans', requireNetworkModerator, createScansRouter());
+
+  app.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
+    logger.error('Dashboard API error', { error: error.message, path: req.path });
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return app;
+}
+
+export function startDashboard(client: Client): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const app = createDashboardApp(client);
+
+    server = app.listen(config.dashboard.port, () => {
+      logger.info('Dashboard API listening', { port: config.dashboard.port });
+      resolve();
+    });
+
+    attachEventStream(server, client);
+
+    server.once('error', reject);
+  });
+}
+
+export async function stopDashboard(): Promise<void> {
+  await closeEventStream();
+
+  return new Promise((resolve) => {
+    if (!server) {
+      resolve();
+      return;
+    }
+
+    server.close(() => {
+      server = null;
+      logger.info('Dashboard API stopped');
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,40 @@
+import { Request } from 'express';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  skip: number;
+}
+
+export function parsePagination(req: Request): Pagination {
+  const page = Math.max(1, parseInt(queryString(req, 'page') ?? '1') || 1);
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(queryString(req, 'limit') ?? String(DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE)
+  );
+
+  return { page, limit, skip: (page - 1) * limit };
+}
+
+export function queryString(req: Request, key: string): string | undefined {
+  const value = req.query[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+export function queryBoolean(req: Request, key: string): boolean | undefined {
+  const value = queryString(req, key);
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+export function queryDate(req: Request, key: string): Date | undefined {
+  const value = queryString(req, key);
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,159 @@
+import { IncomingMessage, Server } from 'http';
+import { Client } from 'discord.js';
+import { WebSocket, WebSocketServer } from 'ws';
+import { logger } from '../utils/logger';
+import { BotEvent, subscribeBotEvents } from '../utils/eventBus';
+import { resolveDashboardAccess } from './access';
+import { canAccessGuild, DashboardSession, getTokenExpiry, verifyDashboardToken } from './middleware/auth';
+
+const EVENT_STREAM_PATH = '/api/events';
+// Browsers cannot set headers on a WebSocket, so they send the token as a second subprotocol after this one.
+const TOKEN_PROTOCOL = 'bearer';
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface EventStreamClient {
+  socket: WebSocket;
+  session: DashboardSession;
+  alive: boolean;
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+const NETWORK_EVENT_TYPES = new Set<BotEvent['type']>(['review_created', 'timeout', 'timeout_lifted', 'global_ban']);
+
+let wss: WebSocketServer | null = null;
+let unsubscribe: (() => void) | null = null;
+let heartbeat: NodeJS.Timeout | null = null;
+const clients = new Set<EventStreamClient>();
+
+export function attachEventStream(server: Server, discordClient: Client): void {
+  wss = new WebSocketServer({
+    server,
+    path: EVENT_STREAM_PATH,
+    // Echoing the token back would put it in the response, so only the marker protocol is accepted.
+    handleProtocols: protocols => protocols.has(TOKEN_PROTOCOL) ? TOKEN_PROTOCOL : false,
+  });
+
+  wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+    const token = readToken(request);
+    const session = token ? verifyDashboardToken(token) : null;
+
+    if (!token || !session) {
+      socket.close(4401, 'Unauthorized');
+      return;
+    }
+
+    const client: EventStreamClient = { socket, session, alive: true, expiryTimer: null };
+    clients.add(client);
+
+    // A connection lives no longer than the token it was opened with.
+    const expiresAt = getTokenExpiry(token);
+    if (expiresAt !== null) {
+      client.expiryTimer = setTimeout(() => socket.close(4401, 'Token expired'), Math.max(expiresAt - Date.now(), 0));
+    }
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+
+    socket.on('close', () => {
+      if (client.expiryTimer) clearTimeout(client.expiryTimer);
+      clients.delete(client);
+    });
+
+    socket.on('error', (error) => {
+      logger.warn('Event stream socket error', { error: error.message, userId: session.userId });
+    });
+
+    socket.send(JSON.stringify({ type: 'ready', guildIds: session.guildIds }));
+    logger.info('Event stream client connected', { userId: session.userId, clients: clients.size });
+  });
+
+  unsubscribe = subscribeBotEvents(broadcast);
+
+  heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+
+      client.alive = false;
+      client.socket.ping();
+      revalidateAccess(discordClient, client).catch(error => {
+        logger.warn('Could not revalidate event stream access', { error: error.message, userId: client.session.userId });
+      });
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+export function closeEventStream(): Promise<void> {
+  return new Promise((resolve) => {
+    if (heartbeat) clearInterval(heartbeat);
+    if (unsubscribe) unsubscribe();
+    heartbeat = null;
+    unsubscribe = null;
+
+    if (!wss) {
+      resolve();
+      return;
+    }
+
+    for (const client of clients) {
+      if (client.expiryTimer) clearTimeout(client.expiryTimer);
+      client.socket.close(1001, 'Server shutting down');
+    }
+    clients.clear();
+
+    wss.close(() => {
+      wss = null;
+      resolve();
+    });
+  });
+}
+
+function broadcast(event: BotEvent): void {
+  const payload = JSON.stringify(event);
+
+  for (const client of clients) {
+    if (client.socket.readyState === WebSocket.OPEN && shouldDeliver(client.session, event)) {
+      client.socket.send(payload);
+    }
+  }
+}
+
+function shouldDeliver(session: DashboardSession, event: BotEvent): boolean {
+  // Events without a guild, such as global bans, concern the whole network.
+  if (event.guildId === null) {
+    return session.networkModerator;
+  }
+
+  if (canAccessGuild(session, event.guildId)) {
+    return true;
+  }
+
+  return session.networkModerator && NETWORK_EVENT_TYPES.has(event.type);
+}
+
+// Like writes over the REST API, the stream checks the user's roles again, so a moderator who lost their role
+// stops receiving that guild's events without waiting for the token to expire.
+async function revalidateAccess(discordClient: Client, client: EventStreamClient): Promise<void> {
+  const { session } = client;
+  const access = await resolveDashboardAccess(discordClient, session.userId, session.guildIds);
+
+  client.session = { ...session, guildIds: access.guildIds, networkModerator: access.networkModerator };
+
+  if (access.guildIds.length === 0 && !access.networkModerator) {
+    client.socket.close(4403, 'Access revoked');
+  }
+}
+
+// Tokens are not accepted in the query string, where they would end up in proxy and access logs.
+function readToken(request: IncomingMessage): string | undefined {
+  const header = request.headers.authorization;
+  const protocols = (request.headers['sec-websocket-protocol'] ?? '').split(',').map(protocol => protocol.trim());
+
+  return header?.startsWith('Bearer ')
+    ? header.substring(7)
+    : protocols[0] === TOKEN_PROTOCOL ? protocols[1] : undefined;
+}
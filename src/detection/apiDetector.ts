@@ -1,132 +1,192 @@
-import axios from 'axios';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
-
-export interface APIDetectionResult {
-  detected: boolean;
-  confidence: number;
-  provider: string;
-  labels?: string[];
-  processingTimeMs: number;
-  error?: string;
+import { getCircuitBreaker } from './circuitBreaker';
+import { isBudgetExhausted, recordProviderCall } from './providerQuota';
+import { getEnabledDetectors } from './providers/registry';
+import { APIDetectionResult, DetectionProvider } from './providers/types';
+
+export type { APIDetectionResult } from './providers/types';
+
+export interface CombinedDetectionResult extends APIDetectionResult {
+  strategy: string;
+  results: APIDetectionResult[];
+  // Set when the verdict was reused from an earlier scan of the same image.
+  cached?: boolean;
 }
 
-export async function detectWithCloudflareWorker(imageUrl: string): Promise<APIDetectionResult> {
+export async function detectWithAPI(imageUrl: string, imageBuffer: Buffer): Promise<CombinedDetectionResult> {
   const startTime = Date.now();
+  const strategy = config.detection.providerStrategy;
+  const enabledProviders = getEnabledDetectors();
 
-  if (!config.detection.workerUrl || !config.detection.workerApiKey) {
+  if (enabledProviders.length === 0) {
     return {
       detected: false,
       confidence: 0,
-      provider: 'cloudflare-worker',
-      processingTimeMs: Date.now() - startTime,
-      error: 'Cloudflare Worker URL or API key not configured',
+      provider: 'none',
+      processingTimeMs: 0,
+      error: 'No API provider configured',
+      strategy,
+      results: [],
     };
   }
 
-  try {
-    const response = await axios.post(
-      config.detection.workerUrl,
-      { imageUrl },
-      {
-        headers: {
-          'X-API-Key': config.detection.workerApiKey,
-          'Content-Type': 'application/json',
-        },
-        timeout: 15000,
-      }
-    );
-
-    const result = response.data;
-
-    logger.info('Cloudflare Worker detection complete', {
-      confidence: result.confidence,
-      detected: result.detected
-    });
+  const providers = await applyQuotaPolicy(enabledProviders);
 
+  if (providers.length === 0) {
     return {
-      detected: result.detected,
-      confidence: result.confidence,
-      provider: 'cloudflare-worker',
-      labels: result.labels,
-      processingTimeMs: Date.now() - startTime,
+      detected: false,
+      confidence: 0,
+      provider: 'none',
+      processingTimeMs: 0,
+      error: 'Provider budget exhausted',
+      strategy,
+      results: [],
     };
-  } catch (error: any) {
-    logger.error('Cloudflare Worker API error', { error: error.message });
+  }
+
+  const results = strategy === 'fallback'
+    ? await detectWithFallback(providers, imageUrl, imageBuffer)
+    : await Promise.all(providers.map(provider => detectWithBreaker(provider, imageUrl, imageBuffer)));
+
+  const succeeded = results.filter(result => !result.error);
+  const processingTimeMs = Date.now() - startTime;
+
+  if (succeeded.length === 0) {
+    logger.error('All detection providers failed', { strategy, providers: providers.map(provider => provider.name) });
     return {
       detected: false,
       confidence: 0,
-      provider: 'cloudflare-worker',
-      processingTimeMs: Date.now() - startTime,
-      error: error.message,
+      provider: 'none',
+      processingTimeMs,
+      error: 'All detection providers failed',
+      strategy,
+      results,
     };
   }
+
+  if (strategy === 'ensemble') {
+    return { ...combineWeighted(succeeded), processingTimeMs, strategy, results };
+  }
+
+  if (strategy === 'any') {
+    const flagged = succeeded.filter(result => result.detected);
+    const decisive = highestConfidence(flagged.length > 0 ? flagged : succeeded);
+    return { ...decisive, processingTimeMs, strategy, results };
+  }
+
+  return { ...succeeded[0], processingTimeMs, strategy, results };
 }
 
-export async function detectWithSightengine(imageUrl: string): Promise<APIDetectionResult> {
-  const startTime = Date.now();
+async function applyQuotaPolicy(providers: DetectionProvider[]): Promise<DetectionProvider[]> {
+  const available: DetectionProvider[] = [];
+  let exhausted = false;
+
+  for (const provider of providers) {
+    if (!await isBudgetExhausted(provider.name)) {
+      available.push(provider);
+      continue;
+    }
+
+    exhausted = true;
+
+    if (config.quota.exhaustedPolicy === 'sample' && Math.random() < config.quota.sampleRate) {
+      available.push(provider);
+    }
+  }
+
+  if (exhausted && config.quota.exhaustedPolicy === 'hash-only') {
+    logger.debug('Provider budget exhausted, scanning with hash matching only');
+    return [];
+  }
 
-  if (!config.detection.sightengine) {
+  return available;
+}
+
+async function detectWithFallback(
+  providers: DetectionProvider[],
+  imageUrl: string,
+  imageBuffer: Buffer
+): Promise<APIDetectionResult[]> {
+  const results: APIDetectionResult[] = [];
+
+  for (const provider of providers) {
+    const result = await detectWithBreaker(provider, imageUrl, imageBuffer);
+    results.push(result);
+
+    if (!result.error) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+async function detectWithBreaker(
+  provider: DetectionProvider,
+  imageUrl: string,
+  imageBuffer: Buffer
+): Promise<APIDetectionResult> {
+  const breaker = getCircuitBreaker(provider.name);
+
+  if (!breaker.canRequest()) {
     return {
       detected: false,
       confidence: 0,
-      provider: 'sightengine',
-      processingTimeMs: Date.now() - startTime,
-      error: 'Sightengine API not configured',
+      provider: provider.name,
+      processingTimeMs: 0,
+      error: 'Circuit breaker open',
     };
   }
 
+  const startTime = Date.now();
+  let result: APIDetectionResult;
   try {
-    const response = await axios.get('https://api.sightengine.com/1.0/check.json', {
-      params: {
-        url: imageUrl,
-        models: 'nudity-2.1,offensive',
-        api_user: config.detection.sightengine.apiUser,
-        api_secret: config.detection.sightengine.apiSecret,
-      },
-      timeout: 10000,
-    });
-
-    const data = response.data;
-    const nudityScore = data.nudity?.sexual_activity || data.nudity?.sexual_display || 0;
-    const offensiveScore = data.offensive?.prob || 0;
-    const confidence = Math.max(nudityScore, offensiveScore);
-
-    logger.info('Sightengine detection complete', { confidence });
-
-    return {
-      detected: confidence > config.detection.detectionThreshold,
-      confidence,
-      provider: 'sightengine',
-      labels: [],
-      processingTimeMs: Date.now() - startTime,
-    };
+    result = await provider.detect(imageUrl, imageBuffer);
   } catch (error: any) {
-    logger.error('Sightengine API error', { error: error.message });
-    return {
+    // Providers report errors in the result, but one that throws is settled the same way,
+    // so a trial call in the half-open state cannot leave the breaker waiting.
+    logger.error('Detection provider threw', { provider: provider.name, error: error.message });
+    result = {
       detected: false,
       confidence: 0,
-      provider: 'sightengine',
+      provider: provider.name,
       processingTimeMs: Date.now() - startTime,
       error: error.message,
     };
   }
-}
 
-export async function detectWithAPI(imageUrl: string): Promise<APIDetectionResult> {
-  if (config.detection.workerUrl) {
-    return await detectWithCloudflareWorker(imageUrl);
+  if (result.error) {
+    breaker.recordFailure();
+  } else {
+    breaker.recordSuccess();
   }
 
-  if (config.detection.sightengine) {
-    return await detectWithSightengine(imageUrl);
+  await recordProviderCall(provider.name);
+
+  return result;
+}
+
+function combineWeighted(results: APIDetectionResult[]): Omit<APIDetectionResult, 'processingTimeMs'> {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const result of results) {
+    const weight = config.detection.providerWeights[result.provider] ?? 1;
+    weightedSum += result.confidence * weight;
+    totalWeight += weight;
   }
 
+  const confidence = totalWeight > 0 ? weightedSum / totalWeight : 0;
+
   return {
-    detected: false,
-    confidence: 0,
-    provider: 'none',
-    processingTimeMs: 0,
-    error: 'No API provider configured',
+    detected: confidence >= config.detection.detectionThreshold,
+    confidence,
+    provider: 'ensemble',
+    labels: [...new Set(results.flatMap(result => result.labels ?? []))],
   };
 }
+
+function highestConfidence(results: APIDetectionResult[]): APIDetectionResult {
+  return results.reduce((best, result) => (result.confidence > best.confidence ? result : best));
+}
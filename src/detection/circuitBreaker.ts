@@ -0,0 +1,83 @@
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedUntil = 0;
+  private probing = false;
+
+  constructor(
+    readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  get state(): CircuitState {
+    if (this.consecutiveFailures < this.failureThreshold) {
+      return 'closed';
+    }
+
+    return Date.now() < this.openedUntil ? 'open' : 'half_open';
+  }
+
+  // After the cooldown a single trial call goes through; the others are turned away until it finishes.
+  canRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.probing) {
+          return false;
+        }
+        this.probing = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.probing = false;
+
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      logger.info('Circuit breaker closed', { provider: this.name });
+    }
+
+    this.consecutiveFailures = 0;
+    this.openedUntil = 0;
+  }
+
+  recordFailure(): void {
+    this.probing = false;
+    this.consecutiveFailures++;
+
+    // A failed trial call after the cooldown opens the circuit again right away.
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      this.openedUntil = Date.now() + this.cooldownMs;
+      logger.warn('Circuit breaker opened', {
+        provider: this.name,
+        consecutiveFailures: this.consecutiveFailures,
+        cooldownMs: this.cooldownMs,
+      });
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers.get(name);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(
+      name,
+      config.detection.circuitBreakerFailures,
+      config.detection.circuitBreakerCooldownSeconds * 1000
+    );
+    breakers.set(name, breaker);
+  }
+
+  return breaker;
+}
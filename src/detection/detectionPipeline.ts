@@ -1,8 +1,16 @@
 import { checkHashMatch, HashMatchResult } from './hashMatcher';
 import { detectWithAPI, APIDetectionResult } from './apiDetector';
+import { getVerdict } from './verdictCache';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { PrismaClient } from '@prisma/client';
 import axios from 'axios';
+import { createHash } from 'crypto';
+
+const prisma = new PrismaClient();
+
+// Images are only downloaded from Discord's CDN and media proxy, never from user-supplied hosts.
+const DOWNLOAD_HOST_SUFFIXES = ['.discordapp.com', '.discordapp.net'];
 
 export interface DetectionResult {
   flagged: boolean;
@@ -10,96 +18,122 @@ export interface DetectionResult {
   method: string;
   requiresReview: boolean;
   hash: string;
+  // SHA-256 of the downloaded bytes; provider verdicts are only reused for byte-identical images.
+  contentHash: string;
   details: {
     hashMatch?: HashMatchResult;
     apiDetection?: APIDetectionResult;
+    providerResults?: APIDetectionResult[];
   };
   totalProcessingTimeMs: number;
 }
 
-interface QueueItem {
-  imageUrl: string;
-  imageBuffer: Buffer;
-  resolve: (result: DetectionResult) => void;
-  reject: (error: Error) => void;
+export interface ScanOptions {
+  // Hashes of images already scanned for the same message; a repeat is skipped before the API call.
+  skipHashes?: ReadonlySet<string>;
+  // Server whose threshold overrides apply; the global thresholds are used when unset.
+  guildId?: string;
 }
 
-class DetectionQueue {
-  private queue: QueueItem[] = [];
-  private processing = 0;
+export interface DetectionThresholds {
+  detection: number;
+  review: number;
+}
 
-  async add(imageUrl: string, imageBuffer: Buffer): Promise<DetectionResult> {
-    return new Promise((resolve, reject) => {
-      this.queue.push({ imageUrl, imageBuffer, resolve, reject });
-      this.processNext();
-    });
-  }
+export function resolveThresholds(
+  overrides: { detectionThreshold: number | null; reviewThreshold: number | null } | null
+): DetectionThresholds {
+  return {
+    detection: overrides?.detectionThreshold ?? config.detection.detectionThreshold,
+    review: overrides?.reviewThreshold ?? config.detection.reviewThreshold,
+  };
+}
 
-  private async processNext(): Promise<void> {
-    if (this.processing >= config.detection.maxConcurrentScans || this.queue.length === 0) {
-      return;
-    }
+export function validateThresholds(thresholds: DetectionThresholds): string | null {
+  if ([thresholds.detection, thresholds.review].some(value => isNaN(value) || value < 0 || value > 1)) {
+    return 'Thresholds must be between 0 and 1';
+  }
 
-    const item = this.queue.shift();
-    if (!item) return;
+  if (thresholds.review > thresholds.detection) {
+    return 'The review threshold cannot be higher than the detection threshold';
+  }
 
-    this.processing++;
+  return null;
+}
 
-    try {
-      const result = await scanImage(item.imageBuffer, item.imageUrl);
-      item.resolve(result);
-    } catch (error) {
-      item.reject(error as Error);
-    } finally {
-      this.processing--;
-      this.processNext();
-    }
+export async function getDetectionThresholds(guildId?: string): Promise<DetectionThresholds> {
+  if (!guildId) {
+    return resolveThresholds(null);
   }
-}
 
-const detectionQueue = new DetectionQueue();
+  return resolveThresholds(await prisma.guild.findUnique({ where: { id: guildId } }));
+}
 
-export async function scanImageQueued(imageUrl: string): Promise<DetectionResult> {
-  try {
-    const imageBuffer = await downloadImage(imageUrl);
+// Thrown for failures that retrying cannot fix, such as deleted or oversized images.
+export class PermanentScanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentScanError';
+  }
+}
 
-    const sizeInMB = imageBuffer.length / (1024 * 1024);
-    if (sizeInMB > config.detection.imageMaxSizeMB) {
-      logger.warn('Image too large', { sizeInMB, maxSize: config.detection.imageMaxSizeMB });
-      throw new Error('Image exceeds maximum size limit');
-    }
+export async function scanImageFromUrl(imageUrl: string, options: ScanOptions = {}): Promise<DetectionResult | null> {
+  const imageBuffer = await downloadImage(imageUrl);
 
-    return await detectionQueue.add(imageUrl, imageBuffer);
-  } catch (error) {
-    logger.error('Error in queued image scan', { error, imageUrl });
-    throw error;
+  const sizeInMB = imageBuffer.length / (1024 * 1024);
+  if (sizeInMB > config.detection.imageMaxSizeMB) {
+    logger.warn('Image too large', { sizeInMB, maxSize: config.detection.imageMaxSizeMB });
+    throw new PermanentScanError('Image exceeds maximum size limit');
   }
+
+  return scanImage(imageBuffer, imageUrl, options);
 }
 
-async function scanImage(imageBuffer: Buffer, imageUrl: string): Promise<DetectionResult> {
+// Scans image bytes that are already in memory; tests and offline tools use this to skip the download.
+async function scanImage(imageBuffer: Buffer, imageUrl: string, options: ScanOptions): Promise<DetectionResult | null> {
   const startTime = Date.now();
 
   try {
+    const contentHash = createHash('sha256').update(imageBuffer).digest('hex');
     const hashResult = await checkHashMatch(imageBuffer);
 
+    if (options.skipHashes?.has(hashResult.hash)) {
+      logger.debug('Skipping already scanned image', { hash: hashResult.hash.substring(0, 8) + '...' });
+      return null;
+    }
+
     if (hashResult.matched) {
-      logger.warn('Hash match detected', { similarity: hashResult.similarity });
+      logger.warn('Hash match detected', {
+        algorithm: hashResult.algorithm,
+        similarity: hashResult.similarity,
+      });
       return {
         flagged: true,
         confidence: 1.0,
         method: 'hash_match',
         requiresReview: false,
         hash: hashResult.hash,
+        contentHash,
         details: { hashMatch: hashResult },
         totalProcessingTimeMs: Date.now() - startTime,
       };
     }
 
-    const apiResult = await detectWithAPI(imageUrl);
+    const { results: providerResults, ...apiResult } = await getVerdict(
+      contentHash,
+      () => detectWithAPI(imageUrl, imageBuffer)
+    );
+
+    // Every provider failed (not merely none configured): let the scan queue retry later.
+    if (apiResult.error && providerResults.length > 0) {
+      throw new Error(apiResult.error);
+    }
 
-    const flagged = apiResult.detected;
+    const thresholds = await getDetectionThresholds(options.guildId);
     const confidence = apiResult.confidence;
-    const requiresReview = confidence >= config.detection.reviewThreshold && confidence < config.detection.detectionThreshold;
+    const scored = !apiResult.error;
+    const flagged = scored && confidence >= thresholds.detection;
+    const requiresReview = scored && confidence >= thresholds.review && confidence < thresholds.detection;
 
     if (flagged) {
       logger.warn('API detection flagged content', { confidence, provider: apiResult.provider });
@@ -111,9 +145,11 @@ async function scanImage(imageBuffer: Buffer, imageUrl: string): Promise<Detecti
       method: apiResult.provider,
       requiresReview,
       hash: hashResult.hash,
+      contentHash,
       details: {
         hashMatch: hashResult,
         apiDetection: apiResult,
+        providerResults,
       },
       totalProcessingTimeMs: Date.now() - startTime,
     };
@@ -123,19 +159,53 @@ async function scanImage(imageBuffer: Buffer, imageUrl: string): Promise<Detecti
   }
 }
 
+export function isAllowedDownloadUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && DOWNLOAD_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix));
+  } catch {
+    return false;
+  }
+}
+
 async function downloadImage(url: string): Promise<Buffer> {
+  if (!isAllowedDownloadUrl(url)) {
+    throw new PermanentScanError('Image URL is not on a Discord media host');
+  }
+
   try {
     const response = await axios.get(url, {
       responseType: 'arraybuffer',
       timeout: 10000,
       maxContentLength: config.detection.imageMaxSizeMB * 1024 * 1024,
+      beforeRedirect: (options) => {
+        if (!isAllowedDownloadUrl(`${options.protocol}//${options.hostname}`)) {
+          throw new PermanentScanError('Image redirected away from a Discord media host');
+        }
+      },
     });
 
     return Buffer.from(response.data);
   } catch (error: any) {
     logger.error('Error downloading image', { error: error.message, url });
+
+    // axios wraps errors thrown from beforeRedirect.
+    const redirectError = error.cause ?? error;
+    if (redirectError instanceof PermanentScanError) {
+      throw redirectError;
+    }
+
+    if (error.message?.includes('maxContentLength')) {
+      throw new PermanentScanError('Image exceeds maximum size limit');
+    }
+
+    const status = error.response?.status;
+    if (status && status >= 400 && status < 500 && status !== 429) {
+      throw new PermanentScanError(`Failed to download image (HTTP ${status})`);
+    }
+
     throw new Error('Failed to download image');
   }
 }
 
-export { downloadImage };
+export { downloadImage, scanImage };
@@ -0,0 +1,61 @@
+import sharp from 'sharp';
+import { config } from '../config/config';
+
+const NATIVE_HASH_FORMATS = ['jpeg', 'png'];
+
+export interface ImageFrame {
+  index: number;
+  buffer: Buffer;
+}
+
+export interface DecodedImage {
+  format?: string;
+  animated: boolean;
+  frameCount: number;
+  frameIndexes: number[];
+}
+
+export async function inspectImage(imageBuffer: Buffer): Promise<DecodedImage> {
+  try {
+    const metadata = await sharp(imageBuffer, { animated: true }).metadata();
+    const frameCount = metadata.pages ?? 1;
+
+    return {
+      format: metadata.format,
+      animated: frameCount > 1,
+      frameCount,
+      frameIndexes: sampleFrameIndexes(frameCount, config.detection.maxAnimationFrames),
+    };
+  } catch {
+    return { animated: false, frameCount: 1, frameIndexes: [0] };
+  }
+}
+
+export function sampleFrameIndexes(frameCount: number, maxFrames: number): number[] {
+  if (frameCount <= 1 || maxFrames <= 1) {
+    return [0];
+  }
+
+  if (frameCount <= maxFrames) {
+    return Array.from({ length: frameCount }, (_, index) => index);
+  }
+
+  const step = (frameCount - 1) / (maxFrames - 1);
+  return Array.from({ length: maxFrames }, (_, index) => Math.round(index * step));
+}
+
+export async function extractFrame(imageBuffer: Buffer, index: number): Promise<Buffer> {
+  return sharp(imageBuffer, { page: index, pages: 1 }).png().toBuffer();
+}
+
+export async function* extractFrames(imageBuffer: Buffer, image: DecodedImage): AsyncGenerator<ImageFrame> {
+  if (!image.animated) {
+    const native = !image.format || NATIVE_HASH_FORMATS.includes(image.format);
+    yield { index: 0, buffer: native ? imageBuffer : await extractFrame(imageBuffer, 0) };
+    return;
+  }
+
+  for (const index of image.frameIndexes) {
+    yield { index, buffer: await extractFrame(imageBuffer, index) };
+  }
+}
@@ -0,0 +1,187 @@
+export interface IndexedHash {
+  hash: string;
+  severity: string;
+}
+
+export interface HashIndexMatch {
+  entry: IndexedHash;
+  distance: number;
+}
+
+interface IndexEntry extends IndexedHash {
+  words: Uint32Array;
+}
+
+interface ChunkRange {
+  start: number;
+  length: number;
+}
+
+/**
+ * Multi-index hashing over fixed-length hex hashes. The hash is split into
+ * maxDistance + 1 disjoint chunks; by the pigeonhole principle any hash within
+ * maxDistance bits shares at least one chunk exactly, so a lookup only has to
+ * verify the entries that collide on a chunk instead of scanning the table.
+ */
+export class HashIndex {
+  private readonly entries = new Map<string, IndexEntry>();
+  private readonly chunks: ChunkRange[];
+  private readonly tables: Map<number, IndexEntry[]>[];
+
+  constructor(readonly bitLength: number, readonly maxDistance: number) {
+    if (bitLength % 4 !== 0) {
+      throw new Error('Hash bit length must be a multiple of 4');
+    }
+
+    const chunkCount = Math.min(maxDistance + 1, bitLength);
+    const baseLength = Math.floor(bitLength / chunkCount);
+    const remainder = bitLength % chunkCount;
+
+    this.chunks = [];
+    let start = 0;
+    for (let i = 0; i < chunkCount; i++) {
+      const length = Math.min(32, baseLength + (i < remainder ? 1 : 0));
+      this.chunks.push({ start, length });
+      start += baseLength + (i < remainder ? 1 : 0);
+    }
+
+    this.tables = this.chunks.map(() => new Map());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  accepts(hash: string): boolean {
+    return hash.length * 4 === this.bitLength && /^[0-9a-f]+$/i.test(hash);
+  }
+
+  add(entry: IndexedHash): boolean {
+    const hash = entry.hash.toLowerCase();
+
+    if (!this.accepts(hash)) {
+      return false;
+    }
+
+    const existing = this.entries.get(hash);
+    if (existing) {
+      existing.severity = entry.severity;
+      return true;
+    }
+
+    const indexed: IndexEntry = { hash, severity: entry.severity, words: hexToWords(hash) };
+    this.entries.set(hash, indexed);
+
+    this.chunks.forEach((chunk, i) => {
+      const key = extractBits(indexed.words, chunk.start, chunk.length);
+      const bucket = this.tables[i].get(key);
+      if (bucket) {
+        bucket.push(indexed);
+      } else {
+        this.tables[i].set(key, [indexed]);
+      }
+    });
+
+    return true;
+  }
+
+  remove(hash: string): boolean {
+    const indexed = this.entries.get(hash.toLowerCase());
+    if (!indexed) {
+      return false;
+    }
+
+    this.entries.delete(indexed.hash);
+
+    this.chunks.forEach((chunk, i) => {
+      const key = extractBits(indexed.words, chunk.start, chunk.length);
+      const bucket = this.tables[i].get(key);
+      if (!bucket) return;
+
+      const remaining = bucket.filter(candidate => candidate !== indexed);
+      if (remaining.length > 0) {
+        this.tables[i].set(key, remaining);
+      } else {
+        this.tables[i].delete(key);
+      }
+    });
+
+    return true;
+  }
+
+  findNearest(hash: string): HashIndexMatch | null {
+    const normalized = hash.toLowerCase();
+    if (!this.accepts(normalized)) {
+      return null;
+    }
+
+    const words = hexToWords(normalized);
+    const seen = new Set<IndexEntry>();
+    let best: HashIndexMatch | null = null;
+
+    this.chunks.forEach((chunk, i) => {
+      const bucket = this.tables[i].get(extractBits(words, chunk.start, chunk.length));
+      if (!bucket) return;
+
+      for (const candidate of bucket) {
+        if (seen.has(candidate)) continue;
+        seen.add(candidate);
+
+        const distance = wordDistance(words, candidate.words);
+        if (distance <= this.maxDistance && (!best || distance < best.distance)) {
+          best = { entry: { hash: candidate.hash, severity: candidate.severity }, distance };
+        }
+      }
+    });
+
+    return best;
+  }
+}
+
+export function hammingDistance(hash1: string, hash2: string): number {
+  if (hash1.length !== hash2.length) {
+    throw new Error('Cannot compare hashes of different lengths');
+  }
+
+  return wordDistance(hexToWords(hash1.toLowerCase()), hexToWords(hash2.toLowerCase()));
+}
+
+function hexToWords(hex: string): Uint32Array {
+  const words = new Uint32Array(Math.ceil(hex.length / 8));
+
+  for (let i = 0; i < words.length; i++) {
+    const part = hex.substring(i * 8, i * 8 + 8).padEnd(8, '0');
+    words[i] = parseInt(part, 16) >>> 0;
+  }
+
+  return words;
+}
+
+function extractBits(words: Uint32Array, start: number, length: number): number {
+  let value = 0;
+
+  for (let bit = start; bit < start + length; bit++) {
+    const word = words[bit >>> 5];
+    const set = (word >>> (31 - (bit & 31))) & 1;
+    value = value * 2 + set;
+  }
+
+  return value;
+}
+
+function wordDistance(a: Uint32Array, b: Uint32Array): number {
+  let distance = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    distance += popcount(a[i] ^ b[i]);
+  }
+
+  return distance;
+}
+
+function popcount(value: number): number {
+  let v = value >>> 0;
+  v = v - ((v >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
@@ -0,0 +1,332 @@
+import { HashList, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { HASH_ALGORITHMS, HashType, isHashType } from './hashAlgorithms';
+import { reloadHashIndexes } from './hashMatcher';
+
+const prisma = new PrismaClient();
+
+const IMPORT_BATCH_SIZE = 500;
+const MAX_REPORTED_ERRORS = 50;
+const SEVERITIES = ['low', 'medium', 'high'] as const;
+
+export type HashListFormat = 'csv' | 'jsonl';
+export type Severity = typeof SEVERITIES[number];
+export type DuplicatePolicy = 'skip' | 'overwrite';
+
+export interface HashListImportOptions {
+  format: HashListFormat;
+  source: string;
+  version: string;
+  defaultHashType?: HashType;
+  defaultSeverity?: Severity;
+  severityMap?: Record<string, Severity>;
+  onDuplicate?: DuplicatePolicy;
+  importedBy?: string;
+  // Import a version older than the last one imported for the source
+  force?: boolean;
+}
+
+export interface HashListEntry {
+  hash: string;
+  hashType: HashType;
+  severity: Severity;
+}
+
+export interface HashListError {
+  line: number;
+  message: string;
+}
+
+export interface HashListImportResult {
+  list: HashList;
+  errors: HashListError[];
+}
+
+export interface HashListExportOptions {
+  format: HashListFormat;
+  source?: string;
+  activeOnly?: boolean;
+}
+
+export class HashListImportError extends Error {}
+
+export function isHashListFormat(value: unknown): value is HashListFormat {
+  return value === 'csv' || value === 'jsonl';
+}
+
+export function isSeverity(value: unknown): value is Severity {
+  return typeof value === 'string' && (SEVERITIES as readonly string[]).includes(value);
+}
+
+export function parseHashList(
+  content: string,
+  options: Pick<HashListImportOptions, 'format' | 'defaultHashType' | 'defaultSeverity' | 'severityMap'>
+): { entries: HashListEntry[]; errors: HashListError[] } {
+  const entries: HashListEntry[] = [];
+  const errors: HashListError[] = [];
+  const lines = content.split(/\r?\n/);
+  let header: string[] | null = null;
+
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const lineNumber = i + 1;
+    if (line.length === 0 || line.startsWith('#')) return;
+
+    let record: Record<string, unknown>;
+
+    if (options.format === 'csv') {
+      const cells = splitCsvLine(line);
+      if (!header) {
+        header = cells.map(cell => cell.toLowerCase());
+        if (!header.includes('hash')) {
+          errors.push({ line: lineNumber, message: 'CSV header must contain a "hash" column' });
+        }
+        return;
+      }
+      record = Object.fromEntries(header.map((column, index) => [column, cells[index]]));
+      record.hashType = record.hashtype ?? record.hash_type;
+    } else {
+      try {
+        record = JSON.parse(line);
+      } catch {
+        errors.push({ line: lineNumber, message: 'Invalid JSON' });
+        return;
+      }
+    }
+
+    const entry = toEntry(record, options);
+    if (typeof entry === 'string') {
+      errors.push({ line: lineNumber, message: entry });
+    } else {
+      entries.push(entry);
+    }
+  });
+
+  return { entries, errors };
+}
+
+export async function importHashList(content: string, options: HashListImportOptions): Promise<HashListImportResult> {
+  const startTime = Date.now();
+  const onDuplicate = options.onDuplicate ?? 'skip';
+  const { entries, errors } = parseHashList(content, options);
+
+  if (entries.length === 0) {
+    throw new HashListImportError('Hash list contains no valid entries');
+  }
+
+  const latest = await prisma.hashList.findFirst({
+    where: { source: options.source },
+    orderBy: { importedAt: 'desc' },
+  });
+
+  if (latest && compareVersions(options.version, latest.version) < 0 && !options.force) {
+    throw new HashListImportError(
+      `Version ${options.version} is older than version ${latest.version} already imported for ${options.source}; use force to import it anyway`
+    );
+  }
+
+  const unique = new Map<string, HashListEntry>();
+  for (const entry of entries) {
+    unique.set(entryKey(entry), entry);
+  }
+
+  let created = 0;
+  let updated = 0;
+  let skipped = entries.length - unique.size;
+  const batch = [...unique.values()];
+
+  try {
+    for (let i = 0; i < batch.length; i += IMPORT_BATCH_SIZE) {
+      const chunk = batch.slice(i, i + IMPORT_BATCH_SIZE);
+      const existing = await prisma.hashDatabase.findMany({
+        where: { hash: { in: chunk.map(entry => entry.hash) } },
+      });
+      const existingByKey = new Map(existing.map(row => [entryKey(row), row]));
+
+      const toCreate = chunk.filter(entry => !existingByKey.has(entryKey(entry)));
+      if (toCreate.length > 0) {
+        await prisma.hashDatabase.createMany({
+          data: toCreate.map(entry => ({
+            hash: entry.hash,
+            hashType: entry.hashType,
+            severity: entry.severity,
+            source: options.source,
+            listVersion: options.version,
+            active: true,
+          })),
+        });
+        created += toCreate.length;
+      }
+
+      const updates = chunk
+        .filter(entry => existingByKey.has(entryKey(entry)))
+        .filter((entry) => {
+          const row = existingByKey.get(entryKey(entry))!;
+          return row.source === options.source || onDuplicate === 'overwrite';
+        });
+
+      skipped += chunk.length - toCreate.length - updates.length;
+
+      if (updates.length > 0) {
+        await prisma.$transaction(updates.map(entry => prisma.hashDatabase.update({
+          where: { hash_hashType: { hash: entry.hash, hashType: entry.hashType } },
+          data: {
+            severity: entry.severity,
+            source: options.source,
+            listVersion: options.version,
+            active: true,
+          },
+        })));
+        updated += updates.length;
+      }
+    }
+
+    // Compared by hash rather than by version, so a list re-imported under the same version also drops removed entries.
+    const active = await prisma.hashDatabase.findMany({
+      where: { source: options.source, active: true },
+      select: { id: true, hash: true, hashType: true },
+    });
+    const missing = active.filter(row => !unique.has(entryKey(row))).map(row => row.id);
+    let deactivated = 0;
+
+    for (let i = 0; i < missing.length; i += IMPORT_BATCH_SIZE) {
+      const { count } = await prisma.hashDatabase.updateMany({
+        where: { id: { in: missing.slice(i, i + IMPORT_BATCH_SIZE) } },
+        data: { active: false },
+      });
+      deactivated += count;
+    }
+
+    const list = await prisma.hashList.create({
+      data: {
+        source: options.source,
+        version: options.version,
+        format: options.format,
+        importedBy: options.importedBy,
+        totalEntries: entries.length,
+        created,
+        updated,
+        skipped,
+        invalid: errors.length,
+        deactivated,
+      },
+    });
+
+    await reloadHashIndexes();
+
+    logger.info('Hash list imported', {
+      source: options.source,
+      version: options.version,
+      created,
+      updated,
+      skipped,
+      invalid: errors.length,
+      deactivated,
+      durationMs: Date.now() - startTime,
+    });
+
+    return { list, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  } catch (error) {
+    logger.error('Error importing hash list', { error, source: options.source, version: options.version });
+    throw error;
+  }
+}
+
+export async function exportHashList(options: HashListExportOptions): Promise<string> {
+  const rows = await prisma.hashDatabase.findMany({
+    where: {
+      source: options.source,
+      active: options.activeOnly === false ? undefined : true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (options.format === 'csv') {
+    const lines = ['hash,hashType,severity,source,listVersion,active'];
+    for (const row of rows) {
+      lines.push([row.hash, row.hashType, row.severity, row.source ?? '', row.listVersion ?? '', row.active]
+        .map(value => escapeCsv(String(value)))
+        .join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  return rows
+    .map(row => JSON.stringify({
+      hash: row.hash,
+      hashType: row.hashType,
+      severity: row.severity,
+      source: row.source,
+      listVersion: row.listVersion,
+      active: row.active,
+    }))
+    .join('\n') + '\n';
+}
+
+function toEntry(
+  record: Record<string, unknown>,
+  options: Pick<HashListImportOptions, 'defaultHashType' | 'defaultSeverity' | 'severityMap'>
+): HashListEntry | string {
+  const hash = typeof record.hash === 'string' ? record.hash.trim().toLowerCase() : '';
+  const hashType = record.hashType || options.defaultHashType || 'perceptual';
+  const rawSeverity = typeof record.severity === 'string' ? record.severity.trim() : '';
+
+  if (!isHashType(hashType)) {
+    return `Unknown hash type "${String(hashType)}"`;
+  }
+
+  const expectedLength = HASH_ALGORITHMS[hashType].bitLength / 4;
+  if (!/^[0-9a-f]+$/.test(hash) || hash.length !== expectedLength) {
+    return `Expected a ${expectedLength}-character hex ${hashType} hash`;
+  }
+
+  const severity = rawSeverity
+    ? options.severityMap?.[rawSeverity] ?? rawSeverity.toLowerCase()
+    : options.defaultSeverity ?? 'high';
+
+  if (!isSeverity(severity)) {
+    return `Unmapped severity "${rawSeverity}"`;
+  }
+
+  return { hash, hashType, severity };
+}
+
+function entryKey(entry: { hash: string; hashType: string }): string {
+  return `${entry.hashType}:${entry.hash}`;
+}
+
+// Orders versions like "2024-06" or "1.10" by their numeric parts, so "1.10" comes after "1.9".
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
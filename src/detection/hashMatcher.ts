@@ -1,57 +1,134 @@
-// @ts-ignore - imghash has no type definitions
-import { hash } from 'imghash';
-import { PrismaClient } from '@prisma/client';
+import { HashDatabase, PrismaClient } from '@prisma/client';
+import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { HashIndex } from './hashIndex';
+import { HASH_ALGORITHMS, HashType, isHashType } from './hashAlgorithms';
+import { extractFrames, inspectImage } from './frameExtractor';
 
 const prisma = new PrismaClient();
 
+const INDEX_LOAD_BATCH_SIZE = 5000;
+
+export const CONFIRMED_HASH_SOURCE = 'moderator-confirmed';
+
+type HashIndexSet = Map<HashType, HashIndex>;
+
+let hashIndexes: HashIndexSet | null = null;
+let hashIndexLoading: Promise<HashIndexSet> | null = null;
+
 export interface HashMatchResult {
   matched: boolean;
   hash: string;
+  hashes: Partial<Record<HashType, string>>;
+  algorithm?: HashType;
   matchedHash?: string;
+  distance?: number;
   similarity?: number;
+  severity?: string;
+  frameIndex?: number;
+  frameCount?: number;
+  framesScanned?: number;
   processingTimeMs: number;
 }
 
+export function getEnabledHashTypes(): HashType[] {
+  return config.detection.hashAlgorithms.filter(isHashType);
+}
+
+export function getMaxDistance(hashType: HashType): number {
+  return config.detection.hashMatchThresholds[hashType] ?? HASH_ALGORITHMS[hashType].defaultMaxDistance;
+}
+
 export async function computePerceptualHash(imageBuffer: Buffer): Promise<string> {
   try {
-    const imageHash = await hash(imageBuffer, 16);
-    return imageHash;
+    return await HASH_ALGORITHMS.perceptual.compute(imageBuffer);
   } catch (error) {
     logger.error('Error computing perceptual hash', { error });
     throw new Error('Failed to compute perceptual hash');
   }
 }
 
+export async function computeImageHashes(
+  imageBuffer: Buffer,
+  hashTypes: HashType[] = getEnabledHashTypes()
+): Promise<Partial<Record<HashType, string>>> {
+  const hashes: Partial<Record<HashType, string>> = {};
+
+  await Promise.all(hashTypes.map(async (hashType) => {
+    try {
+      hashes[hashType] = await HASH_ALGORITHMS[hashType].compute(imageBuffer);
+    } catch (error: any) {
+      logger.warn('Could not compute image hash', { hashType, error: error.message });
+    }
+  }));
+
+  return hashes;
+}
+
 export async function checkHashMatch(imageBuffer: Buffer): Promise<HashMatchResult> {
   const startTime = Date.now();
 
   try {
-    const hash = await computePerceptualHash(imageBuffer);
+    const indexes = await getHashIndexes();
+    const hashTypes = getEnabledHashTypes();
+    const image = await inspectImage(imageBuffer);
 
-    const knownHashes = await prisma.hashDatabase.findMany({
-      where: { active: true },
-      select: { hash: true, severity: true },
-    });
+    const fileHashes = await computeImageHashes(
+      imageBuffer,
+      hashTypes.filter(hashType => HASH_ALGORITHMS[hashType].fileLevel)
+    );
+    const pixelHashTypes = hashTypes.filter(hashType => !HASH_ALGORITHMS[hashType].fileLevel);
+
+    let best = findBestMatch(fileHashes, indexes);
+    let hashes = fileHashes;
+    let framesScanned = 0;
+
+    // A frame-level match counts for the whole attachment, so stop at the first one.
+    if (!best && pixelHashTypes.length > 0) {
+      for await (const frame of extractFrames(imageBuffer, image)) {
+        const frameHashes = await computeImageHashes(frame.buffer, pixelHashTypes);
+        framesScanned++;
+
+        const match = findBestMatch(frameHashes, indexes);
+        if (match || framesScanned === 1) {
+          hashes = { ...fileHashes, ...frameHashes };
+        }
 
-    for (const knownHash of knownHashes) {
-      const similarity = calculateHammingDistance(hash, knownHash.hash);
-
-      if (similarity >= 0.95) {
-        logger.info('Hash match found', { similarity, severity: knownHash.severity });
-        return {
-          matched: true,
-          hash,
-          matchedHash: knownHash.hash,
-          similarity,
-          processingTimeMs: Date.now() - startTime,
-        };
+        if (match) {
+          best = image.animated ? { ...match, frameIndex: frame.index } : match;
+          break;
+        }
       }
     }
 
+    if (Object.keys(hashes).length === 0) {
+      throw new Error('Failed to compute any image hash');
+    }
+
+    const primaryHash = hashes.perceptual ?? Object.values(hashes)[0]!;
+    const animation = image.animated ? { frameCount: image.frameCount, framesScanned } : {};
+
+    if (best) {
+      logger.info('Hash match found', {
+        algorithm: best.algorithm,
+        similarity: best.similarity,
+        severity: best.severity,
+        frameIndex: best.frameIndex,
+      });
+      return {
+        ...best,
+        ...animation,
+        hash: primaryHash,
+        hashes,
+        processingTimeMs: Date.now() - startTime,
+      };
+    }
+
     return {
       matched: false,
-      hash,
+      ...animation,
+      hash: primaryHash,
+      hashes,
       processingTimeMs: Date.now() - startTime,
     };
   } catch (error) {
@@ -60,48 +137,198 @@ export async function checkHashMatch(imageBuffer: Buffer): Promise<HashMatchResu
   }
 }
 
-function calculateHammingDistance(hash1: string, hash2: string): number {
-  if (hash1.length !== hash2.length) {
-    return 0;
+function findBestMatch(
+  hashes: Partial<Record<HashType, string>>,
+  indexes: HashIndexSet
+): Omit<HashMatchResult, 'hash' | 'hashes' | 'processingTimeMs'> | null {
+  let best: Omit<HashMatchResult, 'hash' | 'hashes' | 'processingTimeMs'> | null = null;
+
+  for (const [hashType, value] of Object.entries(hashes) as [HashType, string][]) {
+    const index = indexes.get(hashType);
+    const match = index?.findNearest(value);
+    if (!index || !match) continue;
+
+    const similarity = 1 - match.distance / index.bitLength;
+    if (!best || similarity > best.similarity!) {
+      best = {
+        matched: true,
+        algorithm: hashType,
+        matchedHash: match.entry.hash,
+        distance: match.distance,
+        similarity,
+        severity: match.entry.severity,
+      };
+    }
   }
 
-  let matches = 0;
-  for (let i = 0; i < hash1.length; i++) {
-    if (hash1[i] === hash2[i]) {
-      matches++;
+  return best;
+}
+
+export async function getHashIndexes(): Promise<HashIndexSet> {
+  if (hashIndexes) {
+    return hashIndexes;
+  }
+
+  if (!hashIndexLoading) {
+    hashIndexLoading = loadHashIndexes()
+      .then((indexes) => {
+        hashIndexes = indexes;
+        return indexes;
+      })
+      .finally(() => {
+        hashIndexLoading = null;
+      });
+  }
+
+  return hashIndexLoading;
+}
+
+export async function reloadHashIndexes(): Promise<HashIndexSet> {
+  hashIndexes = null;
+  return getHashIndexes();
+}
+
+function applyToHashIndex(hashType: string, change: (index: HashIndex) => void): void {
+  const apply = (indexes: HashIndexSet) => {
+    const index = isHashType(hashType) ? indexes.get(hashType) : undefined;
+    if (index) change(index);
+  };
+
+  if (hashIndexes) {
+    apply(hashIndexes);
+  } else if (hashIndexLoading) {
+    hashIndexLoading.then(apply).catch(() => undefined);
+  }
+}
+
+async function loadHashIndexes(): Promise<HashIndexSet> {
+  const startTime = Date.now();
+  const indexes: HashIndexSet = new Map(
+    getEnabledHashTypes().map(hashType => [
+      hashType,
+      new HashIndex(HASH_ALGORITHMS[hashType].bitLength, getMaxDistance(hashType)),
+    ])
+  );
+  let skipped = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.hashDatabase.findMany({
+      where: { active: true },
+      select: { id: true, hash: true, hashType: true, severity: true },
+      orderBy: { id: 'asc' },
+      take: INDEX_LOAD_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    for (const entry of batch) {
+      const index = isHashType(entry.hashType) ? indexes.get(entry.hashType) : undefined;
+      if (!index || !index.add(entry)) {
+        skipped++;
+      }
     }
+
+    if (batch.length < INDEX_LOAD_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
   }
 
-  return matches / hash1.length;
+  logger.info('Hash indexes loaded', {
+    hashes: Object.fromEntries([...indexes].map(([hashType, index]) => [hashType, index.size])),
+    skipped,
+    loadTimeMs: Date.now() - startTime,
+  });
+  return indexes;
 }
 
-export async function addKnownHash(hash: string, source: string, severity: 'low' | 'medium' | 'high' = 'high'): Promise<void> {
+export async function addKnownHash(
+  hash: string,
+  source: string,
+  severity: 'low' | 'medium' | 'high' = 'high',
+  hashType: HashType = 'perceptual'
+): Promise<void> {
   try {
     await prisma.hashDatabase.create({
       data: {
         hash,
-        hashType: 'perceptual',
+        hashType,
         source,
         severity,
         active: true,
       },
     });
-    logger.info('Added new hash to database', { source, severity });
+    applyToHashIndex(hashType, index => index.add({ hash, severity }));
+    logger.info('Added new hash to database', { source, severity, hashType });
   } catch (error) {
     logger.error('Error adding hash to database', { error });
     throw error;
   }
 }
 
-export async function removeHash(hash: string): Promise<void> {
+export async function addConfirmedHashes(hashes: Partial<Record<HashType, string>>): Promise<number> {
+  let added = 0;
+
+  for (const [hashType, hash] of Object.entries(hashes) as [HashType, string][]) {
+    if (!isHashType(hashType) || !hash) continue;
+
+    const existing = await prisma.hashDatabase.findUnique({ where: { hash_hashType: { hash, hashType } } });
+    if (existing) {
+      if (existing.source === CONFIRMED_HASH_SOURCE && !existing.active) {
+        await prisma.hashDatabase.update({ where: { id: existing.id }, data: { active: true } });
+        applyToHashIndex(hashType, index => index.add(existing));
+        added++;
+      }
+      continue;
+    }
+
+    await addKnownHash(hash, CONFIRMED_HASH_SOURCE, 'high', hashType);
+    added++;
+  }
+
+  return added;
+}
+
+// Without a hash type, the hash is deactivated for every type it is stored under.
+export async function removeHash(hash: string, hashType?: HashType): Promise<void> {
   try {
+    const existing = await prisma.hashDatabase.findMany({ where: { hash, hashType } });
+    if (existing.length === 0) {
+      return;
+    }
+
     await prisma.hashDatabase.updateMany({
-      where: { hash },
+      where: { id: { in: existing.map(row => row.id) } },
       data: { active: false },
     });
-    logger.info('Deactivated hash in database', { hash: hash.substring(0, 8) + '...' });
+    for (const row of existing) {
+      applyToHashIndex(row.hashType, index => index.remove(hash));
+    }
+    logger.info('Deactivated hash in database', { hash: hash.substring(0, 8) + '...', hashTypes: existing.map(row => row.hashType) });
   } catch (error) {
     logger.error('Error removing hash from database', { error });
     throw error;
   }
 }
+
+export async function updateHash(
+  id: string,
+  changes: { severity?: 'low' | 'medium' | 'high'; active?: boolean }
+): Promise<HashDatabase | null> {
+  try {
+    const existing = await prisma.hashDatabase.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+
+    const updated = await prisma.hashDatabase.update({
+      where: { id },
+      data: changes,
+    });
+
+    applyToHashIndex(updated.hashType, index => (updated.active ? index.add(updated) : index.remove(updated.hash)));
+    logger.info('Updated hash in database', { id, changes });
+    return updated;
+  } catch (error) {
+    logger.error('Error updating hash in database', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,158 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export type QuotaPeriod = 'day' | 'month';
+
+const QUOTA_PERIODS: QuotaPeriod[] = ['day', 'month'];
+
+export interface ProviderUsage {
+  provider: string;
+  period: QuotaPeriod;
+  calls: number;
+  budget: number | null;
+}
+
+export interface QuotaWarning extends ProviderUsage {
+  budget: number;
+  percent: number;
+  exhausted: boolean;
+}
+
+// Current counts keyed by provider, period and period key; stale periods are simply never read again.
+const usageCounts = new Map<string, number>();
+
+let warningHandler: ((warning: QuotaWarning) => Promise<void>) | null = null;
+
+export function onQuotaWarning(handler: (warning: QuotaWarning) => Promise<void>): void {
+  warningHandler = handler;
+}
+
+export function getBudget(provider: string, period: QuotaPeriod): number | null {
+  const budgets = period === 'day' ? config.quota.dailyBudgets : config.quota.monthlyBudgets;
+  return budgets[provider] ?? null;
+}
+
+export async function isBudgetExhausted(provider: string): Promise<boolean> {
+  for (const period of QUOTA_PERIODS) {
+    const budget = getBudget(provider, period);
+    if (budget !== null && await getCalls(provider, period) >= budget) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export async function recordProviderCall(provider: string): Promise<void> {
+  try {
+    for (const period of QUOTA_PERIODS) {
+      const periodKey = getPeriodKey(period);
+
+      const usage = await prisma.providerUsage.upsert({
+        where: { provider_period_periodKey: { provider, period, periodKey } },
+        update: { calls: { increment: 1 } },
+        create: { provider, period, periodKey, calls: 1 },
+      });
+
+      usageCounts.set(usageKey(provider, period, periodKey), usage.calls);
+      await checkThresholds(provider, period, periodKey, usage.calls, usage.warnedPercent);
+    }
+  } catch (error) {
+    logger.error('Error recording provider usage', { error, provider });
+  }
+}
+
+export async function getProviderUsage(providers: string[]): Promise<ProviderUsage[]> {
+  const usage: ProviderUsage[] = [];
+
+  for (const provider of providers) {
+    for (const period of QUOTA_PERIODS) {
+      usage.push({
+        provider,
+        period,
+        calls: await getCalls(provider, period),
+        budget: getBudget(provider, period),
+      });
+    }
+  }
+
+  return usage;
+}
+
+async function getCalls(provider: string, period: QuotaPeriod): Promise<number> {
+  const periodKey = getPeriodKey(period);
+  const key = usageKey(provider, period, periodKey);
+
+  const cached = usageCounts.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const usage = await prisma.providerUsage.findUnique({
+    where: { provider_period_periodKey: { provider, period, periodKey } },
+  });
+
+  const calls = usage?.calls ?? 0;
+  usageCounts.set(key, calls);
+  return calls;
+}
+
+async function checkThresholds(
+  provider: string,
+  period: QuotaPeriod,
+  periodKey: string,
+  calls: number,
+  warnedPercent: number
+): Promise<void> {
+  const budget = getBudget(provider, period);
+  if (budget === null || budget <= 0) {
+    return;
+  }
+
+  const percent = (calls / budget) * 100;
+  const crossed = [...config.quota.warningPercentages, 100]
+    .filter(threshold => percent >= threshold && threshold > warnedPercent);
+
+  if (crossed.length === 0) {
+    return;
+  }
+
+  const threshold = Math.max(...crossed);
+
+  // Only the caller that moves warnedPercent forward sends the warning, so it goes out once per threshold.
+  const { count } = await prisma.providerUsage.updateMany({
+    where: { provider, period, periodKey, warnedPercent: { lt: threshold } },
+    data: { warnedPercent: threshold },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  const exhausted = threshold >= 100;
+  logger.warn(exhausted ? 'Provider budget exhausted' : 'Provider budget warning', {
+    provider,
+    period,
+    calls,
+    budget,
+    policy: config.quota.exhaustedPolicy,
+  });
+
+  try {
+    await warningHandler?.({ provider, period, calls, budget, percent, exhausted });
+  } catch (error) {
+    logger.error('Error in quota warning handler', { error, provider });
+  }
+}
+
+function getPeriodKey(period: QuotaPeriod): string {
+  const now = new Date().toISOString();
+  return period === 'day' ? now.slice(0, 10) : now.slice(0, 7);
+}
+
+function usageKey(provider: string, period: QuotaPeriod, periodKey: string): string {
+  return `${provider}:${period}:${periodKey}`;
+}
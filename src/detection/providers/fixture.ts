@@ -0,0 +1,83 @@
+import { readFileSync } from 'fs';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { APIDetectionResult, DetectionProvider } from './types';
+
+export interface FixtureRule {
+  // Regular expression tested against the image URL
+  pattern: string;
+  confidence: number;
+  detected?: boolean;
+  labels?: string[];
+  error?: string;
+}
+
+export interface FixtureRuleSet {
+  rules: FixtureRule[];
+  defaultConfidence: number;
+}
+
+const DEFAULT_RULE_SET: FixtureRuleSet = {
+  rules: [
+    { pattern: 'fixture-flagged', confidence: 0.99, labels: ['fixture'] },
+    { pattern: 'fixture-review', confidence: 0.75, labels: ['fixture'] },
+    { pattern: 'fixture-error', confidence: 0, error: 'Simulated provider error' },
+  ],
+  defaultConfidence: 0.01,
+};
+
+let ruleSet: { rules: (FixtureRule & { regex: RegExp })[]; defaultConfidence: number } | null = null;
+
+export const fixtureProvider: DetectionProvider = {
+  name: 'fixture',
+  isConfigured: () => true,
+  detect: detectWithFixture,
+};
+
+async function detectWithFixture(imageUrl: string): Promise<APIDetectionResult> {
+  const startTime = Date.now();
+  const { rules, defaultConfidence } = loadRuleSet();
+  const rule = rules.find(candidate => candidate.regex.test(imageUrl));
+  const confidence = rule?.confidence ?? defaultConfidence;
+
+  if (rule?.error) {
+    return {
+      detected: false,
+      confidence: 0,
+      provider: 'fixture',
+      processingTimeMs: Date.now() - startTime,
+      error: rule.error,
+    };
+  }
+
+  return {
+    detected: rule?.detected ?? confidence >= config.detection.detectionThreshold,
+    confidence,
+    provider: 'fixture',
+    labels: rule?.labels ?? [],
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
+function loadRuleSet(): NonNullable<typeof ruleSet> {
+  if (ruleSet) {
+    return ruleSet;
+  }
+
+  let source = DEFAULT_RULE_SET;
+
+  if (config.detection.fixtureFile) {
+    const parsed = JSON.parse(readFileSync(config.detection.fixtureFile, 'utf8'));
+    source = {
+      rules: Array.isArray(parsed.rules) ? parsed.rules : [],
+      defaultConfidence: typeof parsed.defaultConfidence === 'number' ? parsed.defaultConfidence : 0,
+    };
+    logger.info('Loaded fixture detection rules', { file: config.detection.fixtureFile, rules: source.rules.length });
+  }
+
+  ruleSet = {
+    rules: source.rules.map(rule => ({ ...rule, regex: new RegExp(rule.pattern, 'i') })),
+    defaultConfidence: source.defaultConfidence,
+  };
+  return ruleSet;
+}
@@ -0,0 +1,150 @@
+import sharp from 'sharp';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { APIDetectionResult, DetectionProvider } from './types';
+
+// The parts of onnxruntime-node used here. It is an optional dependency, so the build cannot rely on its types.
+interface Tensor {
+  readonly data: unknown;
+}
+
+interface InferenceSession {
+  readonly inputNames: readonly string[];
+  readonly outputNames: readonly string[];
+  run(feeds: Record<string, Tensor>): Promise<Record<string, Tensor>>;
+}
+
+interface OnnxRuntime {
+  InferenceSession: {
+    create(path: string, options: {
+      executionProviders: string[];
+      intraOpNumThreads: number;
+      graphOptimizationLevel: 'all';
+    }): Promise<InferenceSession>;
+  };
+  Tensor: new (type: 'float32', data: Float32Array, dims: number[]) => Tensor;
+}
+
+let runtime: OnnxRuntime | null = null;
+let sessionLoading: Promise<InferenceSession> | null = null;
+
+export const localModelProvider: DetectionProvider = {
+  name: 'local-model',
+  isConfigured: () => config.detection.enableMLModel,
+  detect: detectWithLocalModel,
+};
+
+async function detectWithLocalModel(_imageUrl: string, imageBuffer: Buffer): Promise<APIDetectionResult> {
+  const startTime = Date.now();
+
+  try {
+    const session = await getSession();
+    const input = await preprocess(imageBuffer);
+    const outputs = await session.run({ [session.inputNames[0]]: input });
+    const scores = toProbabilities(Array.from(outputs[session.outputNames[0]].data as Float32Array));
+
+    const { labels, flaggedLabels } = config.detection.mlModel;
+    const flagged = scores.length === 1
+      ? [{ label: flaggedLabels[0] ?? 'unsafe', score: scores[0] }]
+      : flaggedLabels
+        .map(label => ({ label, score: scores[labels.indexOf(label)] }))
+        .filter(entry => entry.score !== undefined);
+
+    const confidence = Math.max(0, ...flagged.map(entry => entry.score));
+
+    logger.info('Local model detection complete', { confidence });
+
+    return {
+      detected: confidence >= config.detection.detectionThreshold,
+      confidence,
+      provider: 'local-model',
+      labels: flagged.filter(entry => entry.score >= config.detection.reviewThreshold).map(entry => entry.label),
+      processingTimeMs: Date.now() - startTime,
+    };
+  } catch (error: any) {
+    logger.error('Local model inference error', { error: error.message });
+    return {
+      detected: false,
+      confidence: 0,
+      provider: 'local-model',
+      processingTimeMs: Date.now() - startTime,
+      error: error.message,
+    };
+  }
+}
+
+async function getSession(): Promise<InferenceSession> {
+  if (!sessionLoading) {
+    sessionLoading = loadSession().catch((error) => {
+      sessionLoading = null;
+      throw error;
+    });
+  }
+
+  return sessionLoading;
+}
+
+async function loadSession(): Promise<InferenceSession> {
+  const startTime = Date.now();
+
+  try {
+    runtime = require('onnxruntime-node') as OnnxRuntime;
+  } catch {
+    throw new Error('onnxruntime-node is not installed or not supported on this platform');
+  }
+
+  const session = await runtime.InferenceSession.create(config.detection.mlModel.path, {
+    executionProviders: ['cpu'],
+    intraOpNumThreads: config.detection.mlModel.threads,
+    graphOptimizationLevel: 'all',
+  });
+
+  logger.info('Local model loaded', {
+    path: config.detection.mlModel.path,
+    inputs: session.inputNames,
+    outputs: session.outputNames,
+    loadTimeMs: Date.now() - startTime,
+  });
+  return session;
+}
+
+async function preprocess(imageBuffer: Buffer): Promise<Tensor> {
+  const { inputSize: size, layout, mean, std } = config.detection.mlModel;
+  const pixels = await sharp(imageBuffer, { animated: false })
+    .resize(size, size, { fit: 'cover' })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer();
+
+  const data = new Float32Array(3 * size * size);
+  const planeSize = size * size;
+
+  for (let i = 0; i < planeSize; i++) {
+    for (let channel = 0; channel < 3; channel++) {
+      const value = (pixels[i * 3 + channel] / 255 - mean[channel]) / std[channel];
+      data[layout === 'nhwc' ? i * 3 + channel : channel * planeSize + i] = value;
+    }
+  }
+
+  const dims = layout === 'nhwc' ? [1, size, size, 3] : [1, 3, size, size];
+  return new runtime!.Tensor('float32', data, dims);
+}
+
+// Models export either probabilities or raw logits; normalize both to probabilities.
+function toProbabilities(values: number[]): number[] {
+  if (values.length === 1) {
+    const [value] = values;
+    return [value >= 0 && value <= 1 ? value : 1 / (1 + Math.exp(-value))];
+  }
+
+  const sum = values.reduce((total, value) => total + value, 0);
+  if (values.every(value => value >= 0 && value <= 1) && Math.abs(sum - 1) < 1e-3) {
+    return values;
+  }
+
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const expSum = exps.reduce((total, value) => total + value, 0);
+  return exps.map(value => value / expSum);
+}
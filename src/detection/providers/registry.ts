@@ -0,0 +1,48 @@
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { DetectionProvider } from './types';
+import { cloudflareWorkerProvider } from './cloudflareWorker';
+import { sightengineProvider } from './sightengine';
+import { fixtureProvider } from './fixture';
+import { localModelProvider } from './localModel';
+
+const detectors = new Map<string, DetectionProvider>();
+const warnedUnknown = new Set<string>();
+
+export function registerDetector(provider: DetectionProvider): void {
+  if (detectors.has(provider.name)) {
+    throw new Error(`Detection provider "${provider.name}" is already registered`);
+  }
+
+  detectors.set(provider.name, provider);
+}
+
+export function getDetector(name: string): DetectionProvider | undefined {
+  return detectors.get(name);
+}
+
+export function getRegisteredDetectorNames(): string[] {
+  return [...detectors.keys()];
+}
+
+// Providers enabled through PROVIDER_ORDER, in that order, skipping ones without credentials.
+export function getEnabledDetectors(): DetectionProvider[] {
+  return config.detection.providerOrder.flatMap(name => {
+    const provider = detectors.get(name);
+
+    if (!provider) {
+      if (!warnedUnknown.has(name)) {
+        warnedUnknown.add(name);
+        logger.warn('Unknown detection provider in PROVIDER_ORDER', { provider: name });
+      }
+      return [];
+    }
+
+    return provider.isConfigured() ? [provider] : [];
+  });
+}
+
+registerDetector(cloudflareWorkerProvider);
+registerDetector(sightengineProvider);
+registerDetector(fixtureProvider);
+registerDetector(localModelProvider);
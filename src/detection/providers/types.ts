@@ -0,0 +1,14 @@
+export interface APIDetectionResult {
+  detected: boolean;
+  confidence: number;
+  provider: string;
+  labels?: string[];
+  processingTimeMs: number;
+  error?: string;
+}
+
+export interface DetectionProvider {
+  name: string;
+  isConfigured: () => boolean;
+  detect: (imageUrl: string, imageBuffer: Buffer) => Promise<APIDetectionResult>;
+}
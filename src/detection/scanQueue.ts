@@ -0,0 +1,282 @@
+import { PrismaClient, ScanJob } from '@prisma/client';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { DetectionResult, PermanentScanError, scanImageFromUrl } from './detectionPipeline';
+
+const prisma = new PrismaClient();
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export const SCAN_PRIORITIES = {
+  high: 10,
+  normal: 5,
+  low: 0,
+} as const;
+
+export type ScanPriority = keyof typeof SCAN_PRIORITIES;
+
+export type ScanJobHandler<T> = (payload: T, result: DetectionResult | null) => Promise<void>;
+
+// Returns null when a stored payload does not have the shape the handler expects.
+export type ScanPayloadParser<T> = (payload: unknown) => T | null;
+
+export interface ScanJobInput {
+  kind: string;
+  guildId?: string;
+  // Lets jobs for a message be found without matching on the payload
+  messageId?: string;
+  imageUrl: string;
+  payload: unknown;
+  priority?: ScanPriority;
+  skipHashes?: Iterable<string>;
+}
+
+// Each handler is stored with its parser, as a function that checks a payload and returns the bound handler.
+const handlers = new Map<string, (payload: unknown) => ((result: DetectionResult | null) => Promise<void>) | null>();
+const inFlight = new Map<string, Promise<void>>();
+
+let deadLetterHandler: ((job: ScanJob) => Promise<void>) | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let accepting = false;
+let pumping = false;
+let pumpRequested = false;
+
+export function registerScanHandler<T>(kind: string, parsePayload: ScanPayloadParser<T>, handler: ScanJobHandler<T>): void {
+  handlers.set(kind, (payload) => {
+    const parsed = parsePayload(payload);
+    return parsed === null ? null : result => handler(parsed, result);
+  });
+}
+
+export function onScanDeadLetter(handler: (job: ScanJob) => Promise<void>): void {
+  deadLetterHandler = handler;
+}
+
+export async function enqueueScan(input: ScanJobInput): Promise<ScanJob> {
+  const skipHashes = input.skipHashes ? [...input.skipHashes] : [];
+
+  const job = await prisma.scanJob.create({
+    data: {
+      kind: input.kind,
+      guildId: input.guildId ?? null,
+      messageId: input.messageId ?? null,
+      imageUrl: input.imageUrl,
+      priority: SCAN_PRIORITIES[input.priority ?? 'normal'],
+      skipHashes: skipHashes.length > 0 ? JSON.stringify(skipHashes) : null,
+      payload: JSON.stringify(input.payload),
+    },
+  });
+
+  void pump();
+  return job;
+}
+
+export async function retryScanJob(id: string, priority: ScanPriority = 'high'): Promise<ScanJob | null> {
+  const { count } = await prisma.scanJob.updateMany({
+    where: { id, status: 'dead' },
+    data: {
+      status: 'pending',
+      priority: SCAN_PRIORITIES[priority],
+      attempts: 0,
+      runAfter: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  void pump();
+  return prisma.scanJob.findUnique({ where: { id } });
+}
+
+export async function startScanQueue(): Promise<void> {
+  // Jobs left in processing were interrupted by a crash or a shutdown that timed out.
+  const { count } = await prisma.scanJob.updateMany({
+    where: { status: 'processing' },
+    data: { status: 'pending' },
+  });
+
+  const pending = await prisma.scanJob.count({ where: { status: 'pending' } });
+  logger.info('Scan queue started', { recovered: count, pending });
+
+  accepting = true;
+  pollTimer = setInterval(() => void pump(), POLL_INTERVAL_MS);
+  void pump();
+}
+
+export async function stopScanQueue(): Promise<void> {
+  accepting = false;
+
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+
+  if (inFlight.size === 0) {
+    return;
+  }
+
+  logger.info('Draining scan queue', { running: inFlight.size });
+
+  let timer: NodeJS.Timeout | undefined;
+  const drained = await Promise.race([
+    Promise.allSettled(inFlight.values()).then(() => true),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), config.detection.scanDrainTimeoutSeconds * 1000);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (!drained) {
+    const ids = [...inFlight.keys()];
+    await prisma.scanJob.updateMany({
+      where: { id: { in: ids }, status: 'processing' },
+      data: { status: 'pending', attempts: { decrement: 1 } },
+    });
+    logger.warn('Scan queue drain timed out, checkpointed running jobs', { jobs: ids.length });
+  }
+}
+
+async function pump(): Promise<void> {
+  if (pumping) {
+    pumpRequested = true;
+    return;
+  }
+
+  pumping = true;
+
+  try {
+    do {
+      pumpRequested = false;
+
+      while (accepting && inFlight.size < config.detection.maxConcurrentScans) {
+        const job = await claimNextJob();
+        if (!job) break;
+
+        const task = runJob(job)
+          .catch((error) => {
+            logger.error('Error running scan job', { error, jobId: job.id });
+          })
+          .finally(() => {
+            inFlight.delete(job.id);
+            void pump();
+          });
+        inFlight.set(job.id, task);
+      }
+    } while (pumpRequested && accepting);
+  } catch (error) {
+    logger.error('Error claiming scan jobs', { error });
+  } finally {
+    pumping = false;
+  }
+}
+
+async function claimNextJob(): Promise<ScanJob | null> {
+  while (true) {
+    const candidate = await prisma.scanJob.findFirst({
+      where: { status: 'pending', runAfter: { lte: new Date() } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const { count } = await prisma.scanJob.updateMany({
+      where: { id: candidate.id, status: 'pending' },
+      data: { status: 'processing', attempts: { increment: 1 } },
+    });
+
+    if (count === 1) {
+      return { ...candidate, status: 'processing', attempts: candidate.attempts + 1 };
+    }
+  }
+}
+
+async function runJob(job: ScanJob): Promise<void> {
+  const bindHandler = handlers.get(job.kind);
+
+  if (!bindHandler) {
+    await deadLetter(job, `No handler registered for scan job kind "${job.kind}"`);
+    return;
+  }
+
+  // Checked before scanning so a job that can never be handled does not spend provider quota.
+  let handler: ((result: DetectionResult | null) => Promise<void>) | null;
+  try {
+    handler = bindHandler(job.payload ? JSON.parse(job.payload) : {});
+  } catch {
+    handler = null;
+  }
+
+  if (!handler) {
+    await deadLetter(job, `Invalid payload for scan job kind "${job.kind}"`);
+    return;
+  }
+
+  let result: DetectionResult | null;
+
+  try {
+    const skipHashes = job.skipHashes ? new Set<string>(JSON.parse(job.skipHashes)) : undefined;
+    result = await scanImageFromUrl(job.imageUrl, { skipHashes, guildId: job.guildId ?? undefined });
+  } catch (error: any) {
+    await handleJobFailure(job, error);
+    return;
+  }
+
+  // The scan itself succeeded; handler errors are not retried so actions are never applied twice.
+  try {
+    await handler(result);
+  } catch (error) {
+    logger.error('Error in scan job handler', { error, jobId: job.id, kind: job.kind });
+  }
+
+  await prisma.scanJob.delete({ where: { id: job.id } });
+}
+
+async function handleJobFailure(job: ScanJob, error: Error): Promise<void> {
+  if (error instanceof PermanentScanError) {
+    logger.warn('Dropping scan job after permanent failure', { jobId: job.id, error: error.message });
+    await prisma.scanJob.delete({ where: { id: job.id } });
+    return;
+  }
+
+  if (job.attempts >= config.detection.scanMaxAttempts) {
+    await deadLetter(job, error.message);
+    return;
+  }
+
+  const delayMs = Math.min(
+    config.detection.scanRetryBaseSeconds * 1000 * 2 ** (job.attempts - 1),
+    MAX_RETRY_DELAY_MS
+  );
+
+  await prisma.scanJob.update({
+    where: { id: job.id },
+    data: { status: 'pending', lastError: error.message, runAfter: new Date(Date.now() + delayMs) },
+  });
+
+  logger.warn('Scan job failed, will retry', {
+    jobId: job.id,
+    attempts: job.attempts,
+    retryInMs: delayMs,
+    error: error.message,
+  });
+}
+
+async function deadLetter(job: ScanJob, reason: string): Promise<void> {
+  const deadJob = await prisma.scanJob.update({
+    where: { id: job.id },
+    data: { status: 'dead', lastError: reason },
+  });
+
+  logger.error('Scan job moved to dead letter', { jobId: job.id, kind: job.kind, attempts: job.attempts, reason });
+
+  try {
+    await deadLetterHandler?.(deadJob);
+  } catch (error) {
+    logger.error('Error in scan dead letter handler', { error, jobId: job.id });
+  }
+}
@@ -0,0 +1,122 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { APIDetectionResult, CombinedDetectionResult } from './apiDetector';
+
+const prisma = new PrismaClient();
+
+const MAX_CACHED_VERDICTS = 10000;
+
+interface CachedVerdict {
+  result: CombinedDetectionResult;
+  expiresAt: number;
+}
+
+// Map iteration order is insertion order, so the first key is always the oldest entry.
+const verdicts = new Map<string, CachedVerdict>();
+const inFlight = new Map<string, Promise<CombinedDetectionResult>>();
+
+export async function getVerdict(
+  contentHash: string,
+  detect: () => Promise<CombinedDetectionResult>
+): Promise<CombinedDetectionResult> {
+  const cached = getCachedVerdict(contentHash) ?? await findRecentVerdict(contentHash);
+  if (cached) {
+    logger.debug('Reusing cached verdict', { hash: contentHash.substring(0, 8) + '...', provider: cached.provider });
+    return cached;
+  }
+
+  const pending = inFlight.get(contentHash);
+  if (pending) {
+    return pending;
+  }
+
+  const request = detect()
+    .then((result) => {
+      if (!result.error) {
+        cacheVerdict(contentHash, result);
+      }
+      return result;
+    })
+    .finally(() => {
+      inFlight.delete(contentHash);
+    });
+
+  inFlight.set(contentHash, request);
+  return request;
+}
+
+export function invalidateVerdict(contentHash: string): void {
+  verdicts.delete(contentHash);
+}
+
+function getCachedVerdict(contentHash: string): CombinedDetectionResult | null {
+  const entry = verdicts.get(contentHash);
+
+  if (!entry) {
+    return null;
+  }
+
+  if (entry.expiresAt <= Date.now()) {
+    verdicts.delete(contentHash);
+    return null;
+  }
+
+  return { ...entry.result, cached: true };
+}
+
+function cacheVerdict(contentHash: string, result: CombinedDetectionResult): void {
+  const ttlMs = config.detection.verdictCacheTtlHours * 60 * 60 * 1000;
+  if (ttlMs <= 0) {
+    return;
+  }
+
+  verdicts.delete(contentHash);
+  verdicts.set(contentHash, { result, expiresAt: Date.now() + ttlMs });
+
+  if (verdicts.size > MAX_CACHED_VERDICTS) {
+    verdicts.delete(verdicts.keys().next().value!);
+  }
+}
+
+async function findRecentVerdict(contentHash: string): Promise<CombinedDetectionResult | null> {
+  const ttlMs = config.detection.verdictCacheTtlHours * 60 * 60 * 1000;
+  if (ttlMs <= 0) {
+    return null;
+  }
+
+  const where = {
+    contentHash,
+    detectionMethod: { not: 'hash_match' },
+    createdAt: { gte: new Date(Date.now() - ttlMs) },
+  };
+
+  // A false positive overrides any later copies that were flagged from the same cached verdict.
+  const detection = await prisma.detection.findFirst({ where: { ...where, actionTaken: 'false_positive' } })
+    ?? await prisma.detection.findFirst({ where, orderBy: { createdAt: 'desc' } });
+
+  if (!detection?.metadata) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(detection.metadata);
+    const apiDetection: APIDetectionResult & { strategy?: string } | undefined = details.apiDetection;
+    if (!apiDetection || apiDetection.error) {
+      return null;
+    }
+
+    const result: CombinedDetectionResult = detection.actionTaken === 'false_positive'
+      ? { ...apiDetection, detected: false, confidence: 0, strategy: apiDetection.strategy ?? 'cache', results: [] }
+      : {
+          ...apiDetection,
+          strategy: apiDetection.strategy ?? 'cache',
+          results: details.providerResults ?? [],
+        };
+
+    cacheVerdict(contentHash, result);
+    return { ...result, cached: true };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config/config';
+import { CONFIRMED_HASH_SOURCE } from '../detection/hashMatcher';
+import { signPayload } from './signing';
+import { FeedPayload, SignedFeed } from './types';
+
+const prisma = new PrismaClient();
+
+export function parseCursor(cursor: string | undefined): { updatedAt: Date; id: string } | null {
+  if (!cursor) return null;
+
+  const [timestamp, id] = cursor.split('|');
+  const updatedAt = new Date(timestamp);
+
+  if (!id || isNaN(updatedAt.getTime())) {
+    throw new Error('Invalid feed cursor');
+  }
+
+  return { updatedAt, id };
+}
+
+export async function buildSignedFeed(since?: string): Promise<SignedFeed> {
+  const cursor = parseCursor(since);
+  const pageSize = config.federation.feedPageSize;
+
+  const rows = await prisma.hashDatabase.findMany({
+    where: {
+      source: CONFIRMED_HASH_SOURCE,
+      ...(cursor
+        ? {
+            OR: [
+              { updatedAt: { gt: cursor.updatedAt } },
+              { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
+            ],
+          }
+        : {}),
+    },
+    orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+    take: pageSize + 1,
+  });
+
+  const hasMore = rows.length > pageSize;
+  const page = rows.slice(0, pageSize);
+  const last = page[page.length - 1];
+
+  const payload: FeedPayload = {
+    instanceId: config.federation.instanceId,
+    generatedAt: new Date().toISOString(),
+    since: since ?? null,
+    cursor: last ? `${last.updatedAt.toISOString()}|${last.id}` : since ?? null,
+    hasMore,
+    entries: page.map(row => ({
+      hash: row.hash,
+      hashType: row.hashType,
+      severity: row.severity,
+      active: row.active,
+      updatedAt: row.updatedAt.toISOString(),
+    })),
+  };
+
+  const serialized = JSON.stringify(payload);
+
+  return {
+    instanceId: config.federation.instanceId,
+    payload: serialized,
+    signature: signPayload(serialized),
+  };
+}
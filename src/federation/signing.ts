@@ -0,0 +1,48 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, sign, verify } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+let privateKey: KeyObject | null = null;
+
+function getPrivateKey(): KeyObject {
+  if (privateKey) {
+    return privateKey;
+  }
+
+  const keyPath = config.federation.privateKeyPath;
+
+  if (existsSync(keyPath)) {
+    privateKey = createPrivateKey(readFileSync(keyPath, 'utf8'));
+  } else {
+    const pair = generateKeyPairSync('ed25519');
+    mkdirSync(dirname(keyPath), { recursive: true });
+    writeFileSync(keyPath, pair.privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    privateKey = pair.privateKey;
+    logger.info('Generated new federation signing key', { keyPath });
+  }
+
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('Federation signing key must be an Ed25519 key');
+  }
+
+  return privateKey;
+}
+
+export function getPublicKeyPem(): string {
+  return createPublicKey(getPrivateKey()).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+export function signPayload(payload: string): string {
+  return sign(null, Buffer.from(payload, 'utf8'), getPrivateKey()).toString('base64');
+}
+
+export function verifyPayload(payload: string, signature: string, publicKeyPem: string): boolean {
+  try {
+    return verify(null, Buffer.from(payload, 'utf8'), createPublicKey(publicKeyPem), Buffer.from(signature, 'base64'));
+  } catch (error: any) {
+    logger.warn('Federation signature verification failed', { error: error.message });
+    return false;
+  }
+}
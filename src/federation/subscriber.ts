@@ -0,0 +1,202 @@
+import axios from 'axios';
+import { FederationPeer, PrismaClient } from '@prisma/client';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { HASH_ALGORITHMS, isHashType } from '../detection/hashAlgorithms';
+import { reloadHashIndexes } from '../detection/hashMatcher';
+import { verifyPayload } from './signing';
+import { FeedEntry, FeedPayload, SignedFeed } from './types';
+
+const prisma = new PrismaClient();
+
+const SEVERITY_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
+const MAX_PAGES_PER_SYNC = 100;
+
+export const FEDERATION_SOURCE_PREFIX = 'federation:';
+
+export interface PeerSyncResult {
+  peerId: string;
+  pages: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  error?: string;
+}
+
+let syncTimer: NodeJS.Timeout | null = null;
+let syncing = false;
+
+export function peerSource(peer: Pick<FederationPeer, 'instanceId'>): string {
+  return `${FEDERATION_SOURCE_PREFIX}${peer.instanceId}`;
+}
+
+export async function syncPeer(peer: FederationPeer): Promise<PeerSyncResult> {
+  const result: PeerSyncResult = { peerId: peer.id, pages: 0, created: 0, updated: 0, skipped: 0 };
+  let cursor = peer.cursor;
+  let feedGeneratedAt = peer.feedGeneratedAt;
+
+  try {
+    let hasMore = true;
+
+    while (hasMore && result.pages < MAX_PAGES_PER_SYNC) {
+      const response = await axios.get<SignedFeed>(`${peer.url.replace(/\/$/, '')}/federation/feed`, {
+        params: cursor ? { since: cursor } : {},
+        timeout: 15000,
+      });
+
+      const feed = response.data;
+      if (!feed || typeof feed.payload !== 'string' || typeof feed.signature !== 'string') {
+        throw new Error('Malformed feed response');
+      }
+
+      if (!verifyPayload(feed.payload, feed.signature, peer.publicKey)) {
+        throw new Error('Feed signature does not match the peer public key');
+      }
+
+      const payload: FeedPayload = JSON.parse(feed.payload);
+      if (payload.instanceId !== peer.instanceId) {
+        throw new Error(`Feed is signed for instance ${payload.instanceId}, expected ${peer.instanceId}`);
+      }
+
+      // A validly signed page can still be replayed: one answering another cursor would skip or repeat entries,
+      // and an old one would undo later changes such as deactivated hashes.
+      if (payload.since !== cursor) {
+        throw new Error(`Feed page starts at ${payload.since ?? 'the beginning'}, expected ${cursor ?? 'the beginning'}`);
+      }
+
+      const generatedAt = new Date(payload.generatedAt);
+      if (isNaN(generatedAt.getTime()) || (feedGeneratedAt && generatedAt < feedGeneratedAt)) {
+        throw new Error('Feed page is older than the last page received from this peer');
+      }
+
+      for (const entry of payload.entries) {
+        const outcome = await applyFeedEntry(peer, entry);
+        result[outcome]++;
+      }
+
+      result.pages++;
+      cursor = payload.cursor;
+      feedGeneratedAt = generatedAt;
+      hasMore = payload.hasMore;
+
+      await prisma.federationPeer.update({
+        where: { id: peer.id },
+        data: { cursor, feedGeneratedAt, lastSyncAt: new Date(), lastError: null },
+      });
+    }
+
+    if (result.created > 0 || result.updated > 0) {
+      await reloadHashIndexes();
+    }
+
+    logger.info('Federation peer synced', { ...result });
+    return result;
+  } catch (error: any) {
+    logger.error('Federation peer sync failed', { peerId: peer.id, error: error.message });
+    await prisma.federationPeer.update({
+      where: { id: peer.id },
+      data: { lastError: error.message, lastSyncAt: new Date() },
+    });
+    return { ...result, error: error.message };
+  }
+}
+
+export async function syncAllPeers(): Promise<PeerSyncResult[]> {
+  if (syncing) {
+    return [];
+  }
+
+  syncing = true;
+  try {
+    const peers = await prisma.federationPeer.findMany({ where: { enabled: true } });
+    const results: PeerSyncResult[] = [];
+
+    for (const peer of peers) {
+      results.push(await syncPeer(peer));
+    }
+
+    return results;
+  } finally {
+    syncing = false;
+  }
+}
+
+export function startFederationSync(): void {
+  if (!config.federation.enabled || syncTimer) {
+    return;
+  }
+
+  const runSync = () => {
+    syncAllPeers().catch(error => logger.error('Error syncing federation peers', { error }));
+  };
+
+  syncTimer = setInterval(runSync, config.federation.syncIntervalMinutes * 60 * 1000);
+  runSync();
+
+  logger.info('Federation sync started', { intervalMinutes: config.federation.syncIntervalMinutes });
+}
+
+export function stopFederationSync(): void {
+  if (syncTimer) {
+    clearInterval(syncTimer);
+    syncTimer = null;
+  }
+}
+
+async function applyFeedEntry(peer: FederationPeer, entry: FeedEntry): Promise<'created' | 'updated' | 'skipped'> {
+  const hash = typeof entry.hash === 'string' ? entry.hash.toLowerCase() : '';
+
+  if (!isHashType(entry.hashType) || !/^[0-9a-f]+$/.test(hash)
+    || hash.length !== HASH_ALGORITHMS[entry.hashType].bitLength / 4) {
+    return 'skipped';
+  }
+
+  const allowedTypes = peer.hashTypes?.split(',').map(type => type.trim()).filter(Boolean);
+  if (allowedTypes && allowedTypes.length > 0 && !allowedTypes.includes(entry.hashType)) {
+    return 'skipped';
+  }
+
+  const severity = capSeverity(entry.severity, peer.severityCap);
+  const source = peerSource(peer);
+  const existing = await prisma.hashDatabase.findUnique({ where: { hash_hashType: { hash, hashType: entry.hashType } } });
+
+  if (existing) {
+    if (existing.source !== source) {
+      return 'skipped';
+    }
+
+    await prisma.hashDatabase.update({
+      where: { id: existing.id },
+      data: {
+        severity,
+        active: entry.active && (peer.trustLevel === 'auto' || existing.active),
+      },
+    });
+    return 'updated';
+  }
+
+  if (!entry.active) {
+    return 'skipped';
+  }
+
+  await prisma.hashDatabase.create({
+    data: {
+      hash,
+      hashType: entry.hashType,
+      severity,
+      source,
+      active: peer.trustLevel === 'auto',
+    },
+  });
+  return 'created';
+}
+
+function capSeverity(severity: string, cap: string | null): string {
+  const normalized = severity in SEVERITY_RANK ? severity : 'high';
+
+  if (cap && cap in SEVERITY_RANK && SEVERITY_RANK[normalized] > SEVERITY_RANK[cap]) {
+    return cap;
+  }
+
+  return normalized;
+}
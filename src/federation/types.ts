@@ -0,0 +1,22 @@
+export interface FeedEntry {
+  hash: string;
+  hashType: string;
+  severity: string;
+  active: boolean;
+  updatedAt: string;
+}
+
+export interface FeedPayload {
+  instanceId: string;
+  generatedAt: string;
+  since: string | null;
+  cursor: string | null;
+  hasMore: boolean;
+  entries: FeedEntry[];
+}
+
+export interface SignedFeed {
+  instanceId: string;
+  payload: string;
+  signature: string;
+}
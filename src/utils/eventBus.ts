@@ -0,0 +1,25 @@
+import { EventEmitter } from 'events';
+
+export type BotEventType = 'detection' | 'review_created' | 'timeout' | 'timeout_lifted' | 'ban' | 'unban' | 'global_ban' | 'global_ban_revoked';
+
+export interface BotEvent {
+  type: BotEventType;
+  guildId: string | null;
+  userId: string;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishBotEvent(event: Omit<BotEvent, 'timestamp'>): void {
+  emitter.emit('event', { ...event, timestamp: new Date().toISOString() });
+}
+
+export function subscribeBotEvents(listener: (event: BotEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
@@ -59,14 +59,14 @@ export function logDetection(data: {
 export function logBan(data: {
   userId: string;
   guildId?: string;
-  level: number;
+  banType: string;
   reason: string;
 }): void {
   logger.warn('Ban event', {
     type: 'ban',
     userId: maskUserId(data.userId),
     guildId: data.guildId,
-    level: data.level,
+    banType: data.banType,
     reason: data.reason,
   });
 }
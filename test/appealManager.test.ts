@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Client } from 'discord.js';
+import { resolveAppeal, submitAppeal } from '../src/bot/handlers/appealManager';
+import { prismaMock } from './prismaMock';
+
+function client(guilds: [string, unknown][] = []): Client {
+  return {
+    guilds: { cache: new Map(guilds) },
+    users: { fetch: vi.fn().mockRejectedValue(new Error('Cannot send messages to this user')) },
+  } as unknown as Client;
+}
+
+const reviewer = { id: 'moderator-1', username: 'moderator' };
+
+const detection = {
+  id: 'detection-1',
+  userId: 'user-1',
+  guildId: 'guild-1',
+  flagged: true,
+  appeal: null,
+  user: { globallyBanned: false },
+};
+
+describe('submitAppeal', () => {
+  it('drops the appeal when there is no channel to send it to', async () => {
+    prismaMock.detection.findUnique.mockResolvedValue(detection);
+    prismaMock.appeal.create.mockResolvedValue({ id: 'appeal-1', guildId: 'guild-1', scope: 'server' });
+
+    const result = await submitAppeal('detection-1', 'user-1', 'This was a photo of my cat.', client());
+
+    expect(result.success).toBe(false);
+    expect(prismaMock.appeal.delete).toHaveBeenCalledWith({ where: { id: 'appeal-1' } });
+  });
+});
+
+describe('resolveAppeal', () => {
+  it('does not decide an appeal another moderator already claimed', async () => {
+    prismaMock.appeal.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.appeal.findUnique.mockResolvedValue({ id: 'appeal-1', status: 'denied' });
+
+    const result = await resolveAppeal('appeal-1', reviewer, 'accepted', '', client());
+
+    expect(result).toEqual({ success: false, message: 'This appeal was already decided (denied)' });
+    expect(prismaMock.appeal.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'appeal-1', status: 'pending' },
+    }));
+    expect(prismaMock.offense.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('reports the parts of the action that could not be undone', async () => {
+    const appeal = { id: 'appeal-1', status: 'accepted', scope: 'server', userId: 'user-1', guildId: 'guild-1', detectionId: 'detection-1' };
+    prismaMock.appeal.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.appeal.findUnique.mockResolvedValue(appeal);
+    prismaMock.timeout.findMany.mockResolvedValue([{ id: 'timeout-1' }]);
+    const guild = {
+      id: 'guild-1',
+      name: 'Guild',
+      members: { fetch: vi.fn().mockRejectedValue(new Error('Missing Permissions')) },
+    };
+
+    const result = await resolveAppeal('appeal-1', reviewer, 'accepted', '', client([['guild-1', guild]]));
+
+    expect(result.success).toBe(true);
+    expect(result.failures).toEqual(['Timeout or ban in Guild: Missing Permissions']);
+    expect(prismaMock.offense.updateMany).toHaveBeenCalled();
+  });
+});
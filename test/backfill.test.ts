@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { runBackfills } from '../src/bot/backfill';
+import { policyFromLegacySettings } from '../src/bot/handlers/actionPolicy';
+import { prismaMock } from './prismaMock';
+
+describe('policyFromLegacySettings', () => {
+  it('never adds an action the server had turned off', () => {
+    expect(policyFromLegacySettings(true, true)).toBe('delete_timeout');
+    expect(policyFromLegacySettings(true, false)).toBe('delete_only');
+    expect(policyFromLegacySettings(false, false)).toBe('alert_only');
+    expect(policyFromLegacySettings(false, true)).toBe('alert_only');
+  });
+});
+
+describe('action policy backfill', () => {
+  it('maps legacy toggles and clears them', async () => {
+    prismaMock.guild.findMany.mockResolvedValue([
+      { id: 'g1', autoDelete: true, autoTimeout: false },
+      { id: 'g2', autoDelete: false, autoTimeout: false },
+    ]);
+
+    await runBackfills();
+
+    expect(prismaMock.guild.update).toHaveBeenCalledWith({
+      where: { id: 'g1' },
+      data: { actionPolicy: 'delete_only', autoDelete: null, autoTimeout: null },
+    });
+    expect(prismaMock.guild.update).toHaveBeenCalledWith({
+      where: { id: 'g2' },
+      data: { actionPolicy: 'alert_only', autoDelete: null, autoTimeout: null },
+    });
+  });
+});
+
+describe('offense backfill', () => {
+  it('records an offense for each counted detection that has none', async () => {
+    const createdAt = new Date('2025-01-01T00:00:00Z');
+    prismaMock.detection.findMany.mockResolvedValue([
+      { id: 'd1', userId: 'u1', guildId: 'g1', detectionMethod: 'hash_match', confidenceScore: 1, metadata: JSON.stringify({ hashMatch: { severity: 'medium' } }), createdAt },
+      { id: 'd2', userId: 'u1', guildId: 'g1', detectionMethod: 'fixture', confidenceScore: 0.99, metadata: null, createdAt },
+    ]);
+    prismaMock.offense.findMany.mockResolvedValue([{ detectionId: 'd2' }]);
+
+    await runBackfills();
+
+    expect(prismaMock.offense.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.offense.create).toHaveBeenCalledWith({
+      data: { userId: 'u1', guildId: 'g1', detectionId: 'd1', method: 'hash_match', severity: 'medium', createdAt },
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Guild } from 'discord.js';
+import { banFromGuild, BAN_SUPERSEDED_REASON } from '../src/bot/handlers/banManager';
+import { prismaMock } from './prismaMock';
+
+function guild(ban = vi.fn().mockResolvedValue(undefined)): Guild {
+  return { id: 'guild-1', members: { ban } } as unknown as Guild;
+}
+
+describe('banFromGuild', () => {
+  it('keeps a ban a moderator placed by hand', async () => {
+    const manualBan = { id: 'manual', issuedByBot: false, active: true };
+    prismaMock.ban.findFirst.mockResolvedValue(manualBan);
+    const target = guild();
+
+    const result = await banFromGuild(target, 'user-1', { banType: 'global', reason: 'Global ban' });
+
+    expect(result).toBe(manualBan);
+    expect(target.members.ban).not.toHaveBeenCalled();
+    expect(prismaMock.ban.create).not.toHaveBeenCalled();
+    expect(prismaMock.ban.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('supersedes earlier bot bans', async () => {
+    prismaMock.ban.findMany.mockResolvedValue([{ id: 'old-bot-ban' }]);
+
+    await banFromGuild(guild(), 'user-1', { banType: 'global', reason: 'Global ban' });
+
+    expect(prismaMock.ban.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['old-bot-ban'] } },
+      data: expect.objectContaining({ active: false, liftReason: BAN_SUPERSEDED_REASON }),
+    });
+  });
+
+  it('restores superseded bans when Discord rejects the ban', async () => {
+    prismaMock.ban.findMany.mockResolvedValue([{ id: 'old-bot-ban' }]);
+    prismaMock.ban.create.mockResolvedValue({ id: 'new-ban' });
+
+    await expect(banFromGuild(guild(vi.fn().mockRejectedValue(new Error('Missing Permissions'))), 'user-1', {
+      banType: 'server',
+      reason: 'Offense',
+    })).rejects.toThrow('Missing Permissions');
+
+    expect(prismaMock.ban.delete).toHaveBeenCalledWith({ where: { id: 'new-ban' } });
+    expect(prismaMock.ban.updateMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ['old-bot-ban'] } },
+      data: { active: true, liftedAt: null, liftReason: null },
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectWithAPI } from '../src/detection/apiDetector';
+import { CircuitBreaker, getCircuitBreaker } from '../src/detection/circuitBreaker';
+import { getDetector } from '../src/detection/providers/registry';
+
+function openBreaker(): CircuitBreaker {
+  const breaker = new CircuitBreaker('test', 2, 1000);
+  breaker.recordFailure();
+  breaker.recordFailure();
+  return breaker;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  it('lets a single trial call through after the cooldown', () => {
+    vi.useFakeTimers();
+    const breaker = openBreaker();
+
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens again when the trial call fails', () => {
+    vi.useFakeTimers();
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
+
+describe('detectWithAPI', () => {
+  it('reports a provider that throws as a failed call', async () => {
+    vi.spyOn(getDetector('fixture')!, 'detect').mockRejectedValueOnce(new Error('socket hang up'));
+    const recordFailure = vi.spyOn(getCircuitBreaker('fixture'), 'recordFailure');
+
+    const result = await detectWithAPI('https://cdn.example/holiday.png', Buffer.alloc(0));
+
+    expect(result.error).toBe('All detection providers failed');
+    expect(result.results).toEqual([expect.objectContaining({ provider: 'fixture', error: 'socket hang up' })]);
+    expect(recordFailure).toHaveBeenCalledOnce();
+  });
+});
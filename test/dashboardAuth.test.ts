@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Client } from 'discord.js';
+import { Request, Response } from 'express';
+import { DashboardSession, revalidateAccessOnWrite } from '../src/dashboard/middleware/auth';
+
+const session: DashboardSession = { userId: 'user-1', username: 'mod', guildIds: ['guild-1'], networkModerator: true };
+
+// The user has left guild-1 since logging in.
+const client = {
+  guilds: { cache: new Map([['guild-1', { members: { fetch: vi.fn().mockRejectedValue(new Error('Unknown Member')) } }]]) },
+} as unknown as Client;
+
+function run(method: string): Promise<DashboardSession> {
+  const res = { locals: { session } } as unknown as Response;
+
+  return new Promise((resolve, reject) => {
+    revalidateAccessOnWrite(client)({ method } as Request, res, error => {
+      if (error) reject(error);
+      else resolve(res.locals.session);
+    });
+  });
+}
+
+describe('revalidateAccessOnWrite', () => {
+  it('keeps the token access for reads', async () => {
+    await expect(run('GET')).resolves.toEqual(session);
+  });
+
+  it('drops access the user no longer has before a write', async () => {
+    await expect(run('POST')).resolves.toEqual({ ...session, guildIds: [], networkModerator: false });
+  });
+});
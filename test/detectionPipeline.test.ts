@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { scanImage } from '../src/detection/detectionPipeline';
+import { computeImageHashes, reloadHashIndexes } from '../src/detection/hashMatcher';
+import { prismaMock } from './prismaMock';
+
+let seed = 1;
+
+// Each call renders a different noise pattern, so scans never share a cached verdict.
+async function makeImage(format: 'png' | 'webp' = 'png'): Promise<Buffer> {
+  const size = 64;
+  const pixels = Buffer.alloc(size * size * 3);
+  let state = seed++ * 7919;
+
+  for (let i = 0; i < pixels.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = state >> 23;
+  }
+
+  const image = sharp(pixels, { raw: { width: size, height: size, channels: 3 } });
+  return format === 'png' ? image.png().toBuffer() : image.webp({ lossless: true }).toBuffer();
+}
+
+describe('detection pipeline with the fixture provider', () => {
+  it('flags images the fixture rules mark as flagged', async () => {
+    const result = await scanImage(await makeImage(), 'https://cdn.example/fixture-flagged.png', {});
+
+    expect(result).toMatchObject({ flagged: true, requiresReview: false, method: 'fixture', confidence: 0.99 });
+  });
+
+  it('sends borderline images to review', async () => {
+    const result = await scanImage(await makeImage(), 'https://cdn.example/fixture-review.png', {});
+
+    expect(result).toMatchObject({ flagged: false, requiresReview: true, method: 'fixture' });
+  });
+
+  it('passes clean images', async () => {
+    const result = await scanImage(await makeImage(), 'https://cdn.example/holiday.png', {});
+
+    expect(result).toMatchObject({ flagged: false, requiresReview: false, confidence: 0.01 });
+  });
+
+  it('uses per-guild thresholds', async () => {
+    prismaMock.guild.findUnique.mockResolvedValue({ detectionThreshold: 0.7, reviewThreshold: 0.5 });
+
+    const result = await scanImage(await makeImage(), 'https://cdn.example/fixture-review.png', { guildId: 'guild-1' });
+
+    expect(result).toMatchObject({ flagged: true, requiresReview: false });
+  });
+
+  it('lets the scan queue retry when every provider fails', async () => {
+    await expect(scanImage(await makeImage(), 'https://cdn.example/fixture-error.png', {}))
+      .rejects.toThrow('All detection providers failed');
+  });
+
+  it('matches known hashes before calling a provider', async () => {
+    const image = await makeImage();
+    const { perceptual } = await computeImageHashes(image, ['perceptual']);
+    prismaMock.hashDatabase.findMany.mockResolvedValue([
+      { id: 'hash-1', hash: perceptual, hashType: 'perceptual', severity: 'high' },
+    ]);
+    await reloadHashIndexes();
+
+    const result = await scanImage(image, 'https://cdn.example/holiday.png', {});
+
+    expect(result).toMatchObject({ flagged: true, method: 'hash_match', confidence: 1 });
+    await reloadHashIndexes();
+  });
+
+  it('reuses verdicts only for byte-identical images', async () => {
+    const png = await makeImage();
+    seed--;
+    const webp = await makeImage('webp');
+
+    const first = await scanImage(png, 'https://cdn.example/holiday.png', {});
+    const repeat = await scanImage(png, 'https://cdn.example/fixture-flagged.png', {});
+    const reencoded = await scanImage(webp, 'https://cdn.example/fixture-flagged.webp', {});
+
+    expect(reencoded!.hash).toBe(first!.hash);
+    expect(repeat).toMatchObject({ flagged: false, details: { apiDetection: { cached: true } } });
+    expect(reencoded).toMatchObject({ flagged: true, method: 'fixture' });
+  });
+});
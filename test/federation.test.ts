@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { FederationPeer } from '@prisma/client';
+import { buildSignedFeed } from '../src/federation/publisher';
+import { getPublicKeyPem, signPayload } from '../src/federation/signing';
+import { syncPeer } from '../src/federation/subscriber';
+import { FeedPayload, SignedFeed } from '../src/federation/types';
+import { prismaMock } from './prismaMock';
+
+// Both instances run in this process: instance A publishes its confirmed hashes, instance B subscribes to A.
+function peerA(overrides: Partial<FederationPeer> = {}): FederationPeer {
+  return {
+    id: 'peer-a',
+    name: 'Instance A',
+    url: 'http://instance-a.test',
+    instanceId: 'instance-a',
+    publicKey: getPublicKeyPem(),
+    enabled: true,
+    trustLevel: 'auto',
+    severityCap: null,
+    hashTypes: null,
+    cursor: null,
+    feedGeneratedAt: null,
+    lastSyncAt: null,
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function serveFeed(respond: (since?: string) => Promise<SignedFeed>) {
+  return vi.spyOn(axios, 'get').mockImplementation(async (_url, options) => ({
+    data: await respond((options?.params as { since?: string }).since),
+  }));
+}
+
+function signed(payload: FeedPayload): SignedFeed {
+  const serialized = JSON.stringify(payload);
+  return { instanceId: payload.instanceId, payload: serialized, signature: signPayload(serialized) };
+}
+
+const confirmedHash = {
+  id: 'hash-1',
+  hash: 'ab'.repeat(32),
+  hashType: 'perceptual',
+  severity: 'high',
+  active: true,
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+describe('federation between two instances', () => {
+  it('copies the confirmed hashes of the peer and remembers where it stopped', async () => {
+    prismaMock.hashDatabase.findMany.mockResolvedValueOnce([confirmedHash]);
+    serveFeed(since => buildSignedFeed(since));
+
+    const result = await syncPeer(peerA());
+
+    expect(result).toEqual({ peerId: 'peer-a', pages: 1, created: 1, updated: 0, skipped: 0 });
+    expect(prismaMock.hashDatabase.create).toHaveBeenCalledWith({
+      data: { hash: confirmedHash.hash, hashType: 'perceptual', severity: 'high', source: 'federation:instance-a', active: true },
+    });
+    expect(prismaMock.federationPeer.update).toHaveBeenCalledWith({
+      where: { id: 'peer-a' },
+      data: expect.objectContaining({ cursor: `2026-01-01T00:00:00.000Z|hash-1`, lastError: null }),
+    });
+  });
+
+  it('rejects a signed page that answers a different cursor', async () => {
+    const page = await buildSignedFeed();
+    serveFeed(async () => page);
+
+    const result = await syncPeer(peerA({ cursor: '2026-01-01T00:00:00.000Z|hash-1' }));
+
+    expect(result.error).toMatch(/expected 2026-01-01T00:00:00.000Z\|hash-1/);
+    expect(prismaMock.hashDatabase.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a replayed page older than the last one received', async () => {
+    const cursor = '2026-01-01T00:00:00.000Z|hash-1';
+    serveFeed(async () => signed({
+      instanceId: 'instance-a',
+      generatedAt: '2026-01-02T00:00:00.000Z',
+      since: cursor,
+      cursor,
+      hasMore: false,
+      entries: [{ hash: confirmedHash.hash, hashType: 'perceptual', severity: 'high', active: true, updatedAt: cursor.split('|')[0] }],
+    }));
+
+    const result = await syncPeer(peerA({ cursor, feedGeneratedAt: new Date('2026-01-03T00:00:00Z') }));
+
+    expect(result.error).toBe('Feed page is older than the last page received from this peer');
+    expect(prismaMock.hashDatabase.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Client, RESTJSONErrorCodes } from 'discord.js';
+import { BAN_SUPERSEDED_REASON } from '../src/bot/handlers/banManager';
+import { revokeGlobalBan } from '../src/bot/handlers/timeoutManager';
+import { prismaMock } from './prismaMock';
+
+const earlier = new Date('2026-01-01T00:00:00Z');
+const later = new Date('2026-02-01T00:00:00Z');
+
+function guild(id: string) {
+  return { id, name: `Server ${id}`, members: { unban: vi.fn().mockResolvedValue(undefined) } };
+}
+
+describe('revokeGlobalBan', () => {
+  it('leaves bans placed by hand before the global ban alone', async () => {
+    const bans = [
+      { id: 'global-1', userId: 'u1', guildId: 'g1', banType: 'global', issuedByBot: true, active: true, createdAt: later, liftReason: null },
+      { id: 'global-2', userId: 'u1', guildId: 'g2', banType: 'global', issuedByBot: true, active: true, createdAt: later, liftReason: null },
+      // Superseded by the global ban before manual bans were protected.
+      { id: 'manual-2', userId: 'u1', guildId: 'g2', banType: 'server', issuedByBot: false, active: false, createdAt: earlier, liftReason: BAN_SUPERSEDED_REASON },
+    ];
+
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'u1', globallyBanned: true });
+    prismaMock.ban.findMany.mockImplementation(async ({ where }: any) => {
+      if (where.banType === 'global') return bans.filter(ban => ban.banType === 'global' && ban.active);
+      if (where.id?.not) return bans.filter(ban => ban.guildId === where.guildId && ban.id !== where.id.not);
+      return bans.filter(ban => ban.guildId === where.guildId && ban.active);
+    });
+
+    const g1 = guild('g1');
+    const g2 = guild('g2');
+    const client = { guilds: { cache: new Map([['g1', g1], ['g2', g2]]) } } as unknown as Client;
+
+    const result = await revokeGlobalBan('u1', 'mod-1', 'Wrongful ban', client);
+
+    expect(result.success).toBe(true);
+    expect(result.results).toEqual([
+      { guildId: 'g1', guildName: 'Server g1', status: 'unbanned' },
+      { guildId: 'g2', guildName: 'Server g2', status: 'kept_manual_ban' },
+    ]);
+    expect(g1.members.unban).toHaveBeenCalledWith('u1', 'Wrongful ban');
+    expect(g2.members.unban).not.toHaveBeenCalled();
+    expect(prismaMock.ban.update).toHaveBeenCalledWith({
+      where: { id: 'manual-2' },
+      data: { active: true, liftedAt: null, liftedBy: null, liftReason: null },
+    });
+    expect(prismaMock.user.update).toHaveBeenCalledWith({ where: { id: 'u1' }, data: { globallyBanned: false } });
+    expect(prismaMock.globalBanRevocation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'u1', unbanned: 1, failed: 0 }),
+    });
+  });
+
+  it('unbans where a bot ban was replaced by the global ban', async () => {
+    const bans = [
+      { id: 'global-1', userId: 'u1', guildId: 'g1', banType: 'global', issuedByBot: true, active: true, createdAt: later, liftReason: null },
+      { id: 'server-1', userId: 'u1', guildId: 'g1', banType: 'server', issuedByBot: true, active: false, createdAt: earlier, liftReason: BAN_SUPERSEDED_REASON },
+    ];
+
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'u1', globallyBanned: true });
+    prismaMock.ban.findMany.mockImplementation(async ({ where }: any) => {
+      if (where.banType === 'global') return bans.filter(ban => ban.banType === 'global' && ban.active);
+      if (where.id?.not) return bans.filter(ban => ban.id !== where.id.not);
+      return bans.filter(ban => ban.active);
+    });
+
+    const g1 = guild('g1');
+    const client = { guilds: { cache: new Map([['g1', g1]]) } } as unknown as Client;
+
+    const result = await revokeGlobalBan('u1', 'mod-1', 'Wrongful ban', client);
+
+    expect(result.results).toEqual([{ guildId: 'g1', guildName: 'Server g1', status: 'unbanned' }]);
+    expect(g1.members.unban).toHaveBeenCalled();
+  });
+
+  it('finds global bans without ban records in the servers\' ban lists', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'u1', globallyBanned: true });
+
+    const banned = { ...guild('g1'), bans: { fetch: vi.fn().mockResolvedValue({ reason: 'Global CSAM ban approved by moderator' }) } };
+    const manual = { ...guild('g2'), bans: { fetch: vi.fn().mockResolvedValue({ reason: 'Spam' }) } };
+    const notBanned = { ...guild('g3'), bans: { fetch: vi.fn().mockRejectedValue({ code: RESTJSONErrorCodes.UnknownBan }) } };
+    const client = { guilds: { cache: new Map([['g1', banned], ['g2', manual], ['g3', notBanned]]) } } as unknown as Client;
+
+    const result = await revokeGlobalBan('u1', 'mod-1', 'Wrongful ban', client);
+
+    expect(result.results).toEqual([{ guildId: 'g1', guildName: 'Server g1', status: 'unbanned' }]);
+    expect(banned.members.unban).toHaveBeenCalledWith('u1', 'Wrongful ban');
+    expect(manual.members.unban).not.toHaveBeenCalled();
+  });
+});
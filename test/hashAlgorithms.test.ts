@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { HASH_ALGORITHMS } from '../src/detection/hashAlgorithms';
+
+// Smooth colour waves, so downscaling keeps the structure the way it does for photos.
+async function makeImage(frequency: number, width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < 3; channel++) {
+        const wave = Math.sin((x * (channel + 1) * frequency * 6) / width + (y * frequency * 4) / height);
+        pixels[(y * width + x) * 3 + channel] = Math.floor(127 + 120 * wave);
+      }
+    }
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; bits; bits >>= 1) distance += bits & 1;
+  }
+  return distance;
+}
+
+describe('PDQ', () => {
+  it('stays within the match distance for a rescaled JPEG copy and not for another image', async () => {
+    const pdq = HASH_ALGORITHMS.pdq;
+    const original = await makeImage(3, 800, 600);
+    const copy = await sharp(original).resize(400, 300).jpeg({ quality: 80 }).toBuffer();
+
+    const [hash, copyHash, otherHash] = await Promise.all([
+      pdq.compute(original),
+      pdq.compute(copy),
+      pdq.compute(await makeImage(7, 800, 600)),
+    ]);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hammingDistance(hash, copyHash)).toBeLessThanOrEqual(pdq.defaultMaxDistance);
+    expect(hammingDistance(hash, otherHash)).toBeGreaterThan(pdq.defaultMaxDistance);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { HashListImportError, importHashList } from '../src/detection/hashLists';
+import { prismaMock } from './prismaMock';
+
+const kept = 'aa'.repeat(32);
+const removed = 'bb'.repeat(32);
+const options = { format: 'jsonl' as const, source: 'partner', version: '2024-06' };
+
+describe('importHashList', () => {
+  it('refuses a version older than the one already imported unless forced', async () => {
+    prismaMock.hashList.findFirst.mockResolvedValue({ version: '2024-10' });
+    const content = JSON.stringify({ hash: kept });
+
+    await expect(importHashList(content, options)).rejects.toThrow(HashListImportError);
+    expect(prismaMock.hashDatabase.createMany).not.toHaveBeenCalled();
+
+    await importHashList(content, { ...options, force: true });
+    expect(prismaMock.hashDatabase.createMany).toHaveBeenCalled();
+  });
+
+  it('compares versions by their numeric parts', async () => {
+    prismaMock.hashList.findFirst.mockResolvedValue({ version: '1.9' });
+
+    await expect(importHashList(JSON.stringify({ hash: kept }), { ...options, version: '1.10' })).resolves.toBeDefined();
+  });
+
+  it('deactivates entries missing from a list imported again under the same version', async () => {
+    prismaMock.hashList.findFirst.mockResolvedValue({ version: '2024-06' });
+    prismaMock.hashDatabase.findMany.mockImplementation(async (args: { select?: unknown }) =>
+      args.select
+        ? [
+            { id: 'kept', hash: kept, hashType: 'perceptual' },
+            { id: 'removed', hash: removed, hashType: 'perceptual' },
+            // Same hex string under another type, which the list does not contain
+            { id: 'other-type', hash: kept, hashType: 'pdq' },
+          ]
+        : [{ hash: kept, hashType: 'perceptual', source: 'partner' }]
+    );
+    prismaMock.hashDatabase.updateMany.mockResolvedValue({ count: 2 });
+
+    await importHashList(JSON.stringify({ hash: kept }), options);
+
+    expect(prismaMock.hashDatabase.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['removed', 'other-type'] } },
+      data: { active: false },
+    });
+    expect(prismaMock.hashList.create).toHaveBeenCalledWith({ data: expect.objectContaining({ deactivated: 2 }) });
+  });
+});
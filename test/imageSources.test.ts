@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Collection, Message } from 'discord.js';
+import { extractImageSources } from '../src/bot/handlers/imageSources';
+import { isAllowedDownloadUrl } from '../src/detection/detectionPipeline';
+
+function message(content: string, embeds: object[] = []): Message {
+  return {
+    content,
+    embeds,
+    attachments: new Collection(),
+    stickers: new Collection(),
+    messageSnapshots: new Collection(),
+  } as unknown as Message;
+}
+
+describe('extractImageSources', () => {
+  it('downloads linked images through the Discord media proxy', () => {
+    const link = 'http://169.254.169.254/latest.png';
+    const proxyURL = 'https://images-ext-1.discordapp.net/external/abc/latest.png';
+
+    const sources = extractImageSources(message(`look ${link}`, [
+      { url: link, thumbnail: { url: link, proxyURL } },
+    ]));
+
+    expect(sources).toEqual([{ url: proxyURL, sourceType: 'link' }]);
+  });
+
+  it('skips links Discord has not embedded yet', () => {
+    expect(extractImageSources(message('http://127.0.0.1:3000/internal.png'))).toEqual([]);
+  });
+
+  it('returns every image in the message', () => {
+    const embeds = Array.from({ length: 12 }, (_, index) => ({
+      image: { url: `https://example.com/${index}.png`, proxyURL: `https://images-ext-1.discordapp.net/external/${index}.png` },
+    }));
+
+    expect(extractImageSources(message('', embeds))).toHaveLength(12);
+  });
+
+  it('skips embed images without a proxy URL', () => {
+    expect(extractImageSources(message('', [{ image: { url: 'http://10.0.0.1/a.png' } }]))).toEqual([]);
+  });
+});
+
+describe('isAllowedDownloadUrl', () => {
+  it('only allows Discord media hosts over https', () => {
+    expect(isAllowedDownloadUrl('https://cdn.discordapp.com/attachments/1/2/a.png')).toBe(true);
+    expect(isAllowedDownloadUrl('https://media.discordapp.net/attachments/1/2/a.png')).toBe(true);
+    expect(isAllowedDownloadUrl('http://cdn.discordapp.com/a.png')).toBe(false);
+    expect(isAllowedDownloadUrl('https://discordapp.net.evil.example/a.png')).toBe(false);
+    expect(isAllowedDownloadUrl('http://169.254.169.254/a.png')).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { vi } from 'vitest';
+
+type MockFn = ReturnType<typeof vi.fn>;
+
+const DEFAULT_RESULTS: Record<string, unknown> = {
+  findMany: [],
+  findFirst: null,
+  findUnique: null,
+  count: 0,
+  createMany: { count: 0 },
+  updateMany: { count: 0 },
+  deleteMany: { count: 0 },
+};
+
+const models = new Map<string, Map<string, MockFn>>();
+
+function createMethod(method: string): MockFn {
+  if (method in DEFAULT_RESULTS) {
+    return vi.fn().mockResolvedValue(DEFAULT_RESULTS[method]);
+  }
+
+  // create, update and upsert echo the written data back, like Prisma does.
+  return vi.fn().mockImplementation(async (args?: { data?: object; create?: object }) => ({
+    id: `mock-${method}`,
+    ...(args?.data ?? args?.create ?? {}),
+  }));
+}
+
+function model(name: string): Record<string, MockFn> {
+  if (!models.has(name)) {
+    models.set(name, new Map());
+  }
+  const methods = models.get(name)!;
+
+  return new Proxy({}, {
+    get: (_, method: string) => {
+      if (!methods.has(method)) {
+        methods.set(method, createMethod(method));
+      }
+      return methods.get(method);
+    },
+  });
+}
+
+// Every module creates its own PrismaClient; they all get this in-memory stand-in.
+export const prismaMock: any = new Proxy({}, {
+  get: (_, name: string) => (name.startsWith('$') ? async () => undefined : model(name)),
+});
+
+export function resetPrismaMock(): void {
+  models.clear();
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from 'discord.js';
+import { resolveReview } from '../src/bot/handlers/reviewManager';
+import { prismaMock } from './prismaMock';
+
+const client = { guilds: { cache: new Map() } } as unknown as Client;
+
+const reviewer = { id: 'moderator-1', username: 'moderator' };
+
+function review(level: number) {
+  return {
+    id: 'review-1',
+    level,
+    status: 'reviewed',
+    decision: 'rejected',
+    detection: { id: 'detection-1', userId: 'user-1', guildId: 'guild-1', metadata: null, imageHash: 'hash' },
+  };
+}
+
+describe('resolveReview', () => {
+  it('does not decide a review another moderator already claimed', async () => {
+    prismaMock.moderatorReview.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.moderatorReview.findUnique.mockResolvedValue(review(2));
+
+    const result = await resolveReview('detection-1', reviewer, 'rejected', '', client);
+
+    expect(result).toEqual({ success: false, message: 'This review was already resolved (rejected)' });
+    expect(prismaMock.timeout.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('only closes a Level 1 review when it is rejected', async () => {
+    prismaMock.moderatorReview.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.moderatorReview.findUnique.mockResolvedValue(review(1));
+
+    const result = await resolveReview('detection-1', reviewer, 'false_positive', '', client);
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.timeout.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.detection.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'detection-1' } }));
+  });
+
+  it('rejects the pending global ban of a Level 2 review', async () => {
+    prismaMock.moderatorReview.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.moderatorReview.findUnique.mockResolvedValue(review(2));
+
+    const result = await resolveReview('detection-1', reviewer, 'rejected', '', client);
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.timeout.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', timeoutType: 'pending_review' },
+      data: { timeoutType: 'global_rejected', active: false },
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { registerScanHandler, startScanQueue, stopScanQueue } from '../src/detection/scanQueue';
+import * as pipeline from '../src/detection/detectionPipeline';
+import { parseMessageImageScanPayload } from '../src/bot/events/messageCreate';
+import { prismaMock } from './prismaMock';
+
+const job = {
+  id: 'job-1',
+  kind: 'message-image',
+  guildId: 'guild-1',
+  messageId: 'message-1',
+  imageUrl: 'https://media.discordapp.net/attachments/1/2/image.png',
+  priority: 5,
+  status: 'pending',
+  attempts: 0,
+  skipHashes: null,
+  // Written by a version that did not store the image source type
+  payload: JSON.stringify({ guildId: 'guild-1', channelId: 'channel-1', messageId: 'message-1', userId: 'user-1', imageUrl: 'x' }),
+};
+
+afterEach(async () => {
+  await stopScanQueue();
+});
+
+describe('scan queue', () => {
+  it('dead letters a job whose payload the handler cannot use, without scanning it', async () => {
+    const handler = vi.fn();
+    const scan = vi.spyOn(pipeline, 'scanImageFromUrl');
+    registerScanHandler('message-image', parseMessageImageScanPayload, handler);
+    prismaMock.scanJob.findFirst.mockResolvedValueOnce(job);
+    prismaMock.scanJob.updateMany.mockResolvedValue({ count: 1 });
+
+    await startScanQueue();
+
+    await vi.waitFor(() => expect(prismaMock.scanJob.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { status: 'dead', lastError: 'Invalid payload for scan job kind "message-image"' },
+    }));
+    expect(scan).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,23 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { beforeEach, vi } from 'vitest';
+import { resetPrismaMock } from './prismaMock';
+
+process.env.DISCORD_BOT_TOKEN ??= 'test-token';
+process.env.DISCORD_CLIENT_ID ??= 'test-client';
+process.env.DISCORD_CLIENT_SECRET ??= 'test-client-secret';
+process.env.JWT_SECRET ??= 'test-jwt-secret-that-is-long-enough-123';
+process.env.ENCRYPTION_KEY ??= 'test-encryption-key-that-is-long-enough';
+process.env.PROVIDER_ORDER ??= 'fixture';
+process.env.LOG_LEVEL ??= 'error';
+process.env.FEDERATION_INSTANCE_ID ??= 'instance-a';
+process.env.FEDERATION_PRIVATE_KEY_PATH ??= join(tmpdir(), 'no-csam-bot-test', 'federation-key.pem');
+
+vi.mock('@prisma/client', async () => {
+  const { prismaMock } = await import('./prismaMock');
+  return { PrismaClient: vi.fn(() => prismaMock) };
+});
+
+beforeEach(() => {
+  resetPrismaMock();
+});
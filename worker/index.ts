@@ -8,6 +8,8 @@ interface DetectionRequest {
   imageUrl: string;
 }
 
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
 interface DetectionResponse {
   detected: boolean;
   confidence: number;
@@ -45,17 +47,53 @@ export default {
     }
 
     try {
-      const body: DetectionRequest = await request.json();
-      const { imageUrl } = body;
+      const contentType = request.headers.get('Content-Type') || '';
+      let imageBuffer: ArrayBuffer;
+
+      if (contentType.startsWith('application/json')) {
+        // URL-based requests are kept for older bot versions
+        const body: DetectionRequest = await request.json();
+        const { imageUrl } = body;
+
+        if (!imageUrl) {
+          return new Response(JSON.stringify({ error: 'imageUrl is required' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+
+        imageBuffer = await fetchImage(imageUrl);
+      } else if (contentType.startsWith('multipart/form-data')) {
+        const form = await request.formData();
+        const image = form.get('image');
+
+        if (!image || typeof image === 'string') {
+          return new Response(JSON.stringify({ error: 'image file is required' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
 
-      if (!imageUrl) {
-        return new Response(JSON.stringify({ error: 'imageUrl is required' }), {
+        imageBuffer = await image.arrayBuffer();
+      } else {
+        imageBuffer = await request.arrayBuffer();
+      }
+
+      if (imageBuffer.byteLength === 0) {
+        return new Response(JSON.stringify({ error: 'Image body is empty' }), {
           status: 400,
           headers: { 'Content-Type': 'application/json' },
         });
       }
 
-      const result = await detectImage(imageUrl, env);
+      if (imageBuffer.byteLength > MAX_IMAGE_BYTES) {
+        return new Response(JSON.stringify({ error: 'Image is too large' }), {
+          status: 413,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const result = await detectImage(imageBuffer, env);
 
       return new Response(JSON.stringify(result), {
         status: 200,
@@ -79,17 +117,19 @@ export default {
   },
 };
 
-async function detectImage(imageUrl: string, env: Env): Promise<DetectionResponse> {
-  const startTime = Date.now();
+async function fetchImage(imageUrl: string): Promise<ArrayBuffer> {
+  const imageResponse = await fetch(imageUrl);
+  if (!imageResponse.ok) {
+    throw new Error('Failed to fetch image');
+  }
 
-  try {
-    const imageResponse = await fetch(imageUrl);
-    if (!imageResponse.ok) {
-      throw new Error('Failed to fetch image');
-    }
+  return imageResponse.arrayBuffer();
+}
 
-    const imageBuffer = await imageResponse.arrayBuffer();
+async function detectImage(imageBuffer: ArrayBuffer, env: Env): Promise<DetectionResponse> {
+  const startTime = Date.now();
 
+  try {
     const aiResponse = await fetch(
       `https://api.cloudflare.com/client/v4/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/ai/run/@cf/microsoft/resnet-50`,
       {